@@ -1,6 +1,39 @@
 import { APIRequestContext, APIResponse } from '@playwright/test';
+import * as fs from 'fs';
+import * as path from 'path';
 import { envConfig } from '../../config/env';
 import { Logger } from '../../utils/Logger';
+import { ApiMiddleware, ApiMiddlewares, ApiRequest } from './ApiMiddleware';
+import { ApiStatusError } from './ApiStatusError';
+import { ApiRetry, IDEMPOTENCY_KEY_HEADER, RetryAttempt, RetryPolicy } from './RetryPolicy';
+import { ArrayFormat, QueryParams, QueryString } from './QueryString';
+import { PaginateOptions, PaginationStrategy, Paginator } from './Pagination';
+import { RateLimiter } from './RateLimiter';
+import type { Cassette } from './Cassette';
+
+/**
+ * File part of a multipart/form-data request
+ */
+export interface ApiFilePart {
+  name: string;
+  mimeType: string;
+  buffer: Buffer;
+}
+
+/**
+ * application/x-www-form-urlencoded fields
+ */
+export type ApiFormFields = Record<string, string | number | boolean>;
+
+/**
+ * multipart/form-data fields and files
+ */
+export type ApiMultipartFields = Record<string, string | number | boolean | ApiFilePart>;
+
+/**
+ * How the response body is parsed ('auto' uses the content type)
+ */
+export type ApiResponseType = 'auto' | 'json' | 'text' | 'buffer';
 
 /**
  * API Request Options
@@ -8,10 +41,44 @@ import { Logger } from '../../utils/Logger';
 export interface ApiRequestOptions {
   method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
   headers?: Record<string, string>;
-  data?: any;
-  params?: Record<string, string | number | boolean>;
+  /** JSON body, string or raw Buffer (sent as application/octet-stream unless a Content-Type is given) */
+  data?: unknown;
+  /** Sent as application/x-www-form-urlencoded */
+  form?: ApiFormFields;
+  /** Sent as multipart/form-data */
+  multipart?: ApiMultipartFields;
+  /** Query parameters (arrays, nested objects; null/undefined are skipped) */
+  params?: QueryParams;
+  /** Array style for params (default: repeat) */
+  arrayFormat?: ArrayFormat;
+  /** Response body parsing (default: auto) */
+  responseType?: ApiResponseType;
   timeout?: number;
   failOnStatusCode?: boolean;
+  /** Values passed to middlewares as request.metadata */
+  metadata?: Record<string, any>;
+  /** Retry policy for this request (merged over the client default), or false to disable retries */
+  retry?: RetryPolicy | false;
+  /** Sent as the Idempotency-Key header; makes POST/PATCH requests retryable */
+  idempotencyKey?: string;
+  /** Pace this request through the per-host rate limiter (default: true) */
+  rateLimit?: boolean;
+}
+
+/**
+ * Timing and size of a single HTTP exchange
+ */
+export interface ApiResponseTiming {
+  /** Request start (epoch milliseconds) */
+  startTime: number;
+  /** Wall-clock time from sending the request until the body was read (ms) */
+  duration: number;
+  /** Request body size in bytes */
+  requestSize: number;
+  /** Response body size in bytes */
+  responseSize: number;
+  /** Time spent waiting on the client-side rate limiter before sending (ms) */
+  limiterWait: number;
 }
 
 /**
@@ -21,16 +88,44 @@ export interface ApiResponse<T = any> {
   status: number;
   statusText: string;
   headers: Record<string, string>;
+  /** JSON, text, or a Buffer for binary content */
   body: T;
+  /** Response Content-Type without parameters */
+  contentType: string;
+  timing: ApiResponseTiming;
+  /** Attempts that failed and were retried before this response */
+  retries?: RetryAttempt[];
   response: APIResponse;
 }
 
+/**
+ * Content types returned as text
+ */
+const TEXT_CONTENT_TYPES = ['text/', 'xml', 'javascript', 'x-www-form-urlencoded', 'graphql'];
+
+/**
+ * File extensions used to guess upload content types
+ */
+const MIME_TYPES: Record<string, string> = {
+  '.pdf': 'application/pdf',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+  '.json': 'application/json',
+  '.csv': 'text/csv',
+  '.txt': 'text/plain',
+};
+
 /**
  * API Client
  * 
  * Top-notch API testing client with:
  * - Automatic retry logic
  * - Request/response logging
+ * - Pluggable request/response middlewares
  * - Error handling
  * - Type-safe responses
  * - Environment-based configuration
@@ -39,6 +134,10 @@ export class ApiClient {
   private requestContext: APIRequestContext;
   private baseUrl: string;
   private defaultHeaders: Record<string, string>;
+  private middlewares: ApiMiddleware[];
+  private retryPolicy: RetryPolicy = {};
+  private rateLimitWaitMs = 0;
+  private cassette: Cassette | null = null;
 
   constructor(requestContext: APIRequestContext, baseUrl?: string) {
     this.requestContext = requestContext;
@@ -47,6 +146,43 @@ export class ApiClient {
       'Content-Type': 'application/json',
       'Accept': 'application/json',
     };
+    this.middlewares = [ApiMiddlewares.redaction(), ApiMiddlewares.logging()];
+  }
+
+  /**
+   * Append middlewares to the chain (they run inside the ones already registered)
+   */
+  use(...middlewares: ApiMiddleware[]): this {
+    this.middlewares.push(...middlewares);
+    return this;
+  }
+
+  /**
+   * Remove middlewares by name
+   */
+  removeMiddleware(name: string): void {
+    this.middlewares = this.middlewares.filter(middleware => middleware.name !== name);
+  }
+
+  /**
+   * Registered middlewares in execution order
+   */
+  getMiddlewares(): ApiMiddleware[] {
+    return [...this.middlewares];
+  }
+
+  /**
+   * Underlying Playwright request context (shares cookies when created from page.request)
+   */
+  getRequestContext(): APIRequestContext {
+    return this.requestContext;
+  }
+
+  /**
+   * Base URL requests are resolved against
+   */
+  getBaseUrl(): string {
+    return this.baseUrl;
   }
 
   /**
@@ -56,6 +192,27 @@ export class ApiClient {
     this.defaultHeaders = { ...this.defaultHeaders, ...headers };
   }
 
+  /**
+   * Total time this client's requests spent waiting on the rate limiter (ms)
+   */
+  getRateLimitWait(): number {
+    return this.rateLimitWaitMs;
+  }
+
+  /**
+   * Record or replay requests through a cassette (null detaches it)
+   */
+  setCassette(cassette: Cassette | null): void {
+    this.cassette = cassette;
+  }
+
+  /**
+   * Set the default retry policy for all requests
+   */
+  setRetryPolicy(policy: RetryPolicy): void {
+    this.retryPolicy = policy;
+  }
+
   /**
    * Add authorization token
    */
@@ -77,45 +234,88 @@ export class ApiClient {
     endpoint: string,
     options: ApiRequestOptions = {}
   ): Promise<ApiResponse<T>> {
-    const method = options.method || 'GET';
-    const url = this.buildUrl(endpoint, options.params);
-    const headers = { ...this.defaultHeaders, ...options.headers };
-    const timeout = options.timeout || 30000;
-    const failOnStatusCode = options.failOnStatusCode !== false;
-
-    // Log request
-    Logger.info(`API ${method} ${url}`);
-    if (options.data) {
-      Logger.debug(`Request body: ${JSON.stringify(options.data, null, 2)}`);
+    const request: ApiRequest = {
+      method: options.method || 'GET',
+      endpoint,
+      url: this.buildUrl(endpoint, options.params, options.arrayFormat),
+      headers: this.buildHeaders(options),
+      data: options.data,
+      form: options.form,
+      multipart: options.multipart,
+      responseType: options.responseType || 'auto',
+      timeout: options.timeout || 30000,
+      failOnStatusCode: options.failOnStatusCode !== false,
+      retry: options.retry === false ? false : { ...this.retryPolicy, ...options.retry },
+      rateLimit: options.rateLimit !== false,
+      metadata: { ...options.metadata },
+    };
+
+    try {
+      return await this.dispatch<T>(request, 0);
+    } catch (error: any) {
+      Logger.error(`API Request failed: ${request.method} ${request.url}`, error);
+      throw error;
     }
+  }
+
+  /**
+   * Run the middleware at `index`, or send the request (with retries) once the chain is exhausted
+   */
+  private async dispatch<T>(request: ApiRequest, index: number): Promise<ApiResponse<T>> {
+    const middleware = this.middlewares[index];
+    if (!middleware) {
+      return request.retry === false
+        ? this.send<T>(request)
+        : ApiRetry.execute(request, attempt => this.send<T>(attempt), request.retry);
+    }
+
+    return middleware.handle(request, next => this.dispatch(next, index + 1));
+  }
+
+  /**
+   * Send the HTTP request
+   */
+  private async send<T>(request: ApiRequest): Promise<ApiResponse<T>> {
+    const cassette = this.cassette;
+    const limiter = request.rateLimit && !cassette?.willReplay(request) ? RateLimiter.forUrl(request.url) : null;
+    const permit = limiter ? await limiter.acquire() : undefined;
+    this.rateLimitWaitMs += permit?.waitMs || 0;
 
     try {
-      const response = await this.requestContext.fetch(url, {
-        method,
-        headers,
-        data: options.data,
-        timeout,
-        failOnStatusCode,
+      const startTime = Date.now();
+      const fetch = () => this.requestContext.fetch(request.url, {
+        method: request.method,
+        headers: request.headers,
+        data: request.data,
+        form: request.form,
+        multipart: request.multipart,
+        timeout: request.timeout,
+        failOnStatusCode: false,
       });
+      const response = cassette ? await cassette.fetch(request, fetch) : await fetch();
+      ApiStatusError.throwIfFailed(request, response.status(), response.statusText());
 
-      const responseBody = await this.parseResponse<T>(response);
-
-      // Log response
-      Logger.info(`API Response: ${response.status()} ${response.statusText()}`);
-      if (responseBody) {
-        Logger.debug(`Response body: ${JSON.stringify(responseBody, null, 2)}`);
-      }
+      const responseBuffer = await response.body();
+      const contentType = (response.headers()['content-type'] || '').split(';')[0].trim().toLowerCase();
+      const responseBody = this.parseResponse(responseBuffer, contentType, request.responseType);
 
       return {
         status: response.status(),
         statusText: response.statusText(),
         headers: response.headers(),
-        body: responseBody,
+        body: responseBody as T,
+        contentType,
+        timing: {
+          startTime,
+          duration: Date.now() - startTime,
+          requestSize: this.getBodySize(request),
+          responseSize: responseBuffer.length,
+          limiterWait: permit?.waitMs || 0,
+        },
         response,
       };
-    } catch (error: any) {
-      Logger.error(`API Request failed: ${method} ${url}`, error);
-      throw error;
+    } finally {
+      permit?.release();
     }
   }
 
@@ -134,7 +334,7 @@ export class ApiClient {
    */
   async post<T = any>(
     endpoint: string,
-    data?: any,
+    data?: unknown,
     options?: Omit<ApiRequestOptions, 'method'>
   ): Promise<ApiResponse<T>> {
     return this.request<T>(endpoint, { ...options, method: 'POST', data });
@@ -145,7 +345,7 @@ export class ApiClient {
    */
   async put<T = any>(
     endpoint: string,
-    data?: any,
+    data?: unknown,
     options?: Omit<ApiRequestOptions, 'method'>
   ): Promise<ApiResponse<T>> {
     return this.request<T>(endpoint, { ...options, method: 'PUT', data });
@@ -156,7 +356,7 @@ export class ApiClient {
    */
   async patch<T = any>(
     endpoint: string,
-    data?: any,
+    data?: unknown,
     options?: Omit<ApiRequestOptions, 'method'>
   ): Promise<ApiResponse<T>> {
     return this.request<T>(endpoint, { ...options, method: 'PATCH', data });
@@ -173,42 +373,101 @@ export class ApiClient {
   }
 
   /**
-   * Build full URL with query parameters
+   * Iterate every item (or page) of a paginated list endpoint
+   * @param endpoint - List endpoint
+   * @param strategy - Page-number, cursor, Link header or Shopify page_info pagination
+   * @param options - Item/page limits and request options for every page
    */
-  private buildUrl(endpoint: string, params?: Record<string, string | number | boolean>): string {
-    let url = endpoint.startsWith('http') ? endpoint : `${this.baseUrl}${endpoint}`;
+  paginate<T = any>(endpoint: string, strategy: PaginationStrategy, options?: PaginateOptions): Paginator<T> {
+    return new Paginator<T>(this, endpoint, strategy, options);
+  }
+
+  /**
+   * Build full URL with an encoded path and query parameters merged into any existing query string
+   */
+  private buildUrl(endpoint: string, params?: QueryParams, arrayFormat?: ArrayFormat): string {
+    const url = endpoint.startsWith('http') ? endpoint : `${this.baseUrl}${endpoint}`;
+    return QueryString.appendToUrl(QueryString.encodePath(url), params, { arrayFormat });
+  }
+
+  /**
+   * Create a multipart file part from a file on disk
+   * @param filePath - File to upload
+   * @param mimeType - Content type (default: guessed from the extension)
+   */
+  static filePart(filePath: string, mimeType?: string): ApiFilePart {
+    return {
+      name: path.basename(filePath),
+      mimeType: mimeType || MIME_TYPES[path.extname(filePath).toLowerCase()] || 'application/octet-stream',
+      buffer: fs.readFileSync(filePath),
+    };
+  }
+
+  /**
+   * Merge default and request headers, adjusting Content-Type for the body kind.
+   * Form and multipart bodies get their Content-Type (with boundary) from Playwright.
+   */
+  private buildHeaders(options: ApiRequestOptions): Record<string, string> {
+    const headers: Record<string, string> = {
+      ...this.defaultHeaders,
+      ...(options.idempotencyKey ? { [IDEMPOTENCY_KEY_HEADER]: options.idempotencyKey } : {}),
+    };
+    const dropContentType = () => Object.keys(headers)
+      .filter(name => name.toLowerCase() === 'content-type')
+      .forEach(name => delete headers[name]);
+
+    if (options.form || options.multipart) {
+      dropContentType();
+    } else if (Buffer.isBuffer(options.data)) {
+      dropContentType();
+      headers['Content-Type'] = 'application/octet-stream';
+    }
+
+    return { ...headers, ...options.headers };
+  }
 
-    if (params && Object.keys(params).length > 0) {
-      const queryString = new URLSearchParams(
-        Object.entries(params).reduce((acc, [key, value]) => {
-          acc[key] = String(value);
-          return acc;
-        }, {} as Record<string, string>)
-      ).toString();
-      url += `?${queryString}`;
+  /**
+   * Size of a request body in bytes as it is sent
+   */
+  private getBodySize(request: ApiRequest): number {
+    if (request.form) {
+      return Buffer.byteLength(new URLSearchParams(
+        Object.entries(request.form).map(([key, value]) => [key, String(value)])
+      ).toString());
+    }
+
+    if (request.multipart) {
+      // Field and file contents only; boundaries and part headers are not counted
+      return Object.values(request.multipart).reduce<number>((size, value) =>
+        size + (typeof value === 'object' ? value.buffer.length : Buffer.byteLength(String(value))), 0);
     }
 
-    return url;
+    const data = request.data;
+    if (data === undefined || data === null) return 0;
+    if (Buffer.isBuffer(data)) return data.length;
+    return Buffer.byteLength(typeof data === 'string' ? data : JSON.stringify(data));
   }
 
   /**
-   * Parse response body
+   * Parse response body: JSON, text for textual content types, otherwise a Buffer
    */
-  private async parseResponse<T>(response: APIResponse): Promise<T | null> {
-    const contentType = response.headers()['content-type'] || '';
-    
-    if (contentType.includes('application/json')) {
+  private parseResponse(buffer: Buffer, contentType: string, responseType: ApiResponseType): unknown {
+    if (responseType === 'buffer') return buffer;
+    if (responseType === 'text') return buffer.toString('utf-8');
+
+    const isJson = contentType === 'application/json' || contentType.endsWith('+json');
+    if (responseType === 'json' || isJson) {
       try {
-        return await response.json();
+        return JSON.parse(buffer.toString('utf-8'));
       } catch {
         return null;
       }
     }
-    
-    if (contentType.includes('text/')) {
-      return (await response.text()) as any;
+
+    if (TEXT_CONTENT_TYPES.some(type => contentType.includes(type))) {
+      return buffer.toString('utf-8');
     }
 
-    return null;
+    return buffer.length > 0 ? buffer : null;
   }
 }
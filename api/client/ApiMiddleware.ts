@@ -0,0 +1,313 @@
+import type { ApiMultipartFields, ApiRequestOptions, ApiResponse, ApiResponseType } from './ApiClient';
+import type { MCPContextManager } from '../../mcp/MCPContextManager';
+import { Logger } from '../../utils/Logger';
+import { Redactor } from '../../utils/Redactor';
+import { ApiReproduction, RequestSnippet, SnippetRequest } from '../../utils/RequestSnippet';
+import { ApiRetry, RetryPolicy } from './RetryPolicy';
+
+/**
+ * Outgoing request as seen by middlewares
+ */
+export interface ApiRequest {
+  method: NonNullable<ApiRequestOptions['method']>;
+  /** Endpoint as passed to ApiClient.request */
+  endpoint: string;
+  /** Fully resolved URL including query string */
+  url: string;
+  headers: Record<string, string>;
+  data?: any;
+  form?: Record<string, string | number | boolean>;
+  multipart?: ApiMultipartFields;
+  responseType: ApiResponseType;
+  timeout: number;
+  failOnStatusCode: boolean;
+  /** Retry policy applied around the HTTP call, or false when retries are disabled */
+  retry: RetryPolicy | false;
+  /** Pace the HTTP call through the per-host rate limiter */
+  rateLimit: boolean;
+  /** Redactor used by middlewares that log or report (set by the redaction middleware) */
+  redactor?: Redactor | null;
+  /** Free-form values shared between middlewares */
+  metadata: Record<string, any>;
+}
+
+/**
+ * Calls the rest of the chain (and finally the HTTP request)
+ */
+export type ApiNext = (request: ApiRequest) => Promise<ApiResponse>;
+
+/**
+ * Request/response middleware.
+ * Middlewares run in registration order around the HTTP call and may change
+ * the request before calling `next` and the response after it returns.
+ */
+export interface ApiMiddleware {
+  name: string;
+  handle(request: ApiRequest, next: ApiNext): Promise<ApiResponse>;
+}
+
+/**
+ * One request recorded by the metrics middleware
+ */
+export interface ApiMetricEntry {
+  method: string;
+  url: string;
+  status?: number;
+  duration: number;
+  /** Time spent waiting on the rate limiter (ms) */
+  limiterWait?: number;
+  timestamp: number;
+  error?: string;
+}
+
+/**
+ * Collects request metrics from the metrics middleware
+ */
+export class ApiMetrics {
+  private entries: ApiMetricEntry[] = [];
+
+  record(entry: ApiMetricEntry): void {
+    this.entries.push(entry);
+  }
+
+  getEntries(): ApiMetricEntry[] {
+    return [...this.entries];
+  }
+
+  clear(): void {
+    this.entries = [];
+  }
+
+  /**
+   * Request count, error count and average duration per `METHOD path`
+   */
+  summary(): Record<string, { count: number; errors: number; avgDuration: number }> {
+    const summary: Record<string, { count: number; errors: number; avgDuration: number }> = {};
+
+    this.entries.forEach(entry => {
+      const key = `${entry.method} ${entry.url.split('?')[0]}`;
+      const item = summary[key] || { count: 0, errors: 0, avgDuration: 0 };
+      item.avgDuration = (item.avgDuration * item.count + entry.duration) / (item.count + 1);
+      item.count++;
+      if (entry.error || (entry.status !== undefined && entry.status >= 400)) item.errors++;
+      summary[key] = item;
+    });
+
+    return summary;
+  }
+}
+
+/**
+ * Built-in ApiClient middlewares
+ */
+export class ApiMiddlewares {
+  /**
+   * Set the redactor used by logging, metrics and MCP middlewares further down the chain
+   * @param redactor - Redactor to use (default: Redactor.fromEnv())
+   */
+  static redaction(redactor: Redactor | null = Redactor.fromEnv()): ApiMiddleware {
+    return {
+      name: 'redaction',
+      handle: (request, next) => next({ ...request, redactor }),
+    };
+  }
+
+  /**
+   * Log requests and responses through Logger (bodies at debug level)
+   */
+  static logging(): ApiMiddleware {
+    return {
+      name: 'logging',
+      handle: async (request, next) => {
+        const redactor = request.redactor;
+        const url = redactor ? redactor.redactUrl(request.url) : request.url;
+
+        Logger.info(`API ${request.method} ${url}`);
+        const requestBody = ApiMiddlewares.describeBody(ApiMiddlewares.getRequestBody(request), redactor, request.url);
+        if (requestBody) {
+          Logger.debug(`Request body: ${requestBody}`);
+        }
+
+        const response = await next(request);
+
+        Logger.info(`API Response: ${response.status} ${response.statusText}`);
+        const responseBody = ApiMiddlewares.describeBody(response.body, redactor, request.url);
+        if (responseBody) {
+          Logger.debug(`Response body: ${responseBody}`);
+        }
+
+        return response;
+      },
+    };
+  }
+
+  /**
+   * Add an Authorization header unless the request already has one
+   * @param getToken - Returns the current token (nothing is added when it returns undefined)
+   * @param type - Authorization scheme
+   */
+  static auth(
+    getToken: () => string | undefined | Promise<string | undefined>,
+    type: 'Bearer' | 'Basic' = 'Bearer'
+  ): ApiMiddleware {
+    return {
+      name: 'auth',
+      handle: async (request, next) => {
+        const hasAuthorization = Object.keys(request.headers).some(header => header.toLowerCase() === 'authorization');
+        const token = hasAuthorization ? undefined : await getToken();
+        if (!token) return next(request);
+
+        return next({ ...request, headers: { ...request.headers, Authorization: `${type} ${token}` } });
+      },
+    };
+  }
+
+  /**
+   * Retry the rest of the chain (e.g. to re-run auth middlewares on every attempt)
+   * instead of only the HTTP call, which the request's `retry` option covers
+   */
+  static retry(policy: RetryPolicy = {}): ApiMiddleware {
+    return {
+      name: 'retry',
+      handle: (request, next) => ApiRetry.execute({ ...request, retry: false }, next, policy),
+    };
+  }
+
+  /**
+   * Record method, URL, status and duration of every request
+   * @param collector - Metrics collector
+   */
+  static metrics(collector: ApiMetrics): ApiMiddleware {
+    return {
+      name: 'metrics',
+      handle: async (request, next) => {
+        const start = Date.now();
+        const url = request.redactor ? request.redactor.redactUrl(request.url) : request.url;
+
+        try {
+          const response = await next(request);
+          collector.record({
+            method: request.method,
+            url,
+            status: response.status,
+            duration: Date.now() - start,
+            limiterWait: response.timing.limiterWait,
+            timestamp: start,
+          });
+          return response;
+        } catch (error) {
+          collector.record({ method: request.method, url, duration: Date.now() - start, timestamp: start, error: (error as Error).message });
+          throw error;
+        }
+      },
+    };
+  }
+
+  /**
+   * Report redacted curl and fetch snippets for requests that fail (thrown or HTTP status >= 400)
+   * @param onFailure - Receives the reproduction of each failed request
+   */
+  static reproduction(onFailure: (reproduction: ApiReproduction) => void): ApiMiddleware {
+    return {
+      name: 'reproduction',
+      handle: async (request, next) => {
+        try {
+          const response = await next(request);
+          if (response.status >= 400) {
+            onFailure(RequestSnippet.reproduce(ApiMiddlewares.toSnippetRequest(request), { status: response.status }, request.redactor));
+          }
+          return response;
+        } catch (error) {
+          const failure = ((error as Error).message || String(error)).split('\n')[0];
+          onFailure(RequestSnippet.reproduce(ApiMiddlewares.toSnippetRequest(request), { failure }, request.redactor));
+          throw error;
+        }
+      },
+    };
+  }
+
+  /**
+   * Add every request to an MCP context (redacted by the context manager)
+   * @param contextManager - MCP context manager of the running test
+   */
+  static mcp(contextManager: MCPContextManager): ApiMiddleware {
+    return {
+      name: 'mcp',
+      handle: async (request, next) => {
+        const start = Date.now();
+        const response = await next(request);
+
+        contextManager.addAPICall({
+          requestId: `${request.method} ${request.url}`,
+          method: request.method,
+          url: request.url,
+          requestHeaders: request.headers,
+          requestBody: ApiMiddlewares.getRequestBody(request),
+          responseStatus: response.status,
+          responseHeaders: response.headers,
+          responseBody: Buffer.isBuffer(response.body)
+            ? `<binary ${response.body.length} bytes ${response.contentType}>`
+            : response.body,
+          timestamp: new Date(start).toISOString(),
+          duration: Date.now() - start,
+        });
+
+        return response;
+      },
+    };
+  }
+
+  /**
+   * Request body as logged and reported (file parts are summarised)
+   */
+  private static getRequestBody(request: ApiRequest): any {
+    if (request.form) return request.form;
+    if (request.multipart) {
+      return Object.fromEntries(Object.entries(request.multipart).map(([field, value]) => [
+        field,
+        typeof value === 'object' ? `<file ${value.name} ${value.mimeType} ${value.buffer.length} bytes>` : value,
+      ]));
+    }
+    return request.data;
+  }
+
+  /**
+   * Request as it goes over the wire, for curl/fetch snippets
+   */
+  private static toSnippetRequest(request: ApiRequest): SnippetRequest {
+    if (request.form) {
+      const form = new URLSearchParams(Object.entries(request.form).map(([field, value]) => [field, String(value)]));
+      return {
+        method: request.method,
+        url: request.url,
+        headers: { ...request.headers, 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: form.toString(),
+      };
+    }
+
+    if (request.multipart) {
+      return {
+        method: request.method,
+        url: request.url,
+        headers: request.headers,
+        multipart: Object.fromEntries(Object.entries(request.multipart).map(([field, value]) => [
+          field,
+          typeof value === 'object' ? { name: value.name, mimeType: value.mimeType } : String(value),
+        ])),
+      };
+    }
+
+    return { method: request.method, url: request.url, headers: request.headers, body: request.data };
+  }
+
+  /**
+   * Printable, redacted body (binary bodies are summarised)
+   */
+  private static describeBody(body: any, redactor?: Redactor | null, url?: string): string | undefined {
+    if (body === undefined || body === null || body === '') return undefined;
+    if (Buffer.isBuffer(body)) return `<binary ${body.length} bytes>`;
+
+    const redacted = redactor ? redactor.redactBody(body, url) : body;
+    return typeof redacted === 'string' ? redacted : JSON.stringify(redacted, null, 2);
+  }
+}
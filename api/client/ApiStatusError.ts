@@ -0,0 +1,32 @@
+import type { ApiRequest } from './ApiMiddleware';
+
+/**
+ * Thrown when a request with failOnStatusCode receives an error status (>= 400)
+ */
+export class ApiStatusError extends Error {
+  readonly method: string;
+  readonly url: string;
+  readonly status: number;
+  readonly statusText: string;
+
+  constructor(method: string, url: string, status: number, statusText: string) {
+    super(`${method} ${url} failed: ${status} ${statusText}`);
+    this.name = 'ApiStatusError';
+    this.method = method;
+    this.url = url;
+    this.status = status;
+    this.statusText = statusText;
+  }
+
+  /**
+   * Throw when the request fails on error statuses and the status is one
+   * @param request - Request as sent
+   * @param status - Response status
+   * @param statusText - Response status text
+   */
+  static throwIfFailed(request: ApiRequest, status: number, statusText: string): void {
+    if (request.failOnStatusCode && status >= 400) {
+      throw new ApiStatusError(request.method, request.url, status, statusText);
+    }
+  }
+}
@@ -0,0 +1,263 @@
+import type { ApiClient } from './ApiClient';
+import type { ApiMiddleware, ApiRequest } from './ApiMiddleware';
+import { ApiStatusError } from './ApiStatusError';
+import { Endpoints } from '../endpoints/Endpoints';
+import { ApiTestData } from '../data/ApiTestData';
+import { Env } from '../../config/env';
+import { Logger } from '../../utils/Logger';
+
+/**
+ * Login credentials for a role
+ */
+export interface AuthCredentials {
+  email: string;
+  password: string;
+}
+
+/**
+ * Tokens returned by the auth endpoints
+ */
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken?: string;
+  /** Expiry as epoch milliseconds (from expires_in or the JWT exp claim) */
+  expiresAt?: number;
+}
+
+/**
+ * Auth session options
+ */
+export interface AuthSessionOptions {
+  /** Credentials per role (default: customer and admin from env / ApiTestData) */
+  roles?: Record<string, AuthCredentials>;
+  /** Refresh tokens this long before they expire (default: 30s) */
+  refreshMarginMs?: number;
+}
+
+/**
+ * Request metadata flag that keeps a request out of the auth session middleware
+ */
+export const SKIP_AUTH = 'skipAuth';
+
+/**
+ * Auth Session Manager
+ *
+ * Logs in through Endpoints.AUTH.LOGIN per role, caches tokens for the worker,
+ * refreshes them on expiry or 401 and replays the failed request once.
+ */
+export class AuthSessionManager {
+  /** Tokens are cached per worker process, keyed by base URL and role */
+  private static readonly tokenCache = new Map<string, AuthTokens>();
+  private static readonly pendingLogins = new Map<string, Promise<AuthTokens>>();
+  private static readonly pendingRefreshes = new Map<string, Promise<AuthTokens>>();
+
+  private readonly client: ApiClient;
+  private readonly roles: Record<string, AuthCredentials>;
+  private readonly refreshMarginMs: number;
+
+  constructor(client: ApiClient, options: AuthSessionOptions = {}) {
+    this.client = client;
+    this.roles = { ...AuthSessionManager.getDefaultRoles(), ...options.roles };
+    this.refreshMarginMs = options.refreshMarginMs ?? 30000;
+  }
+
+  /**
+   * Default role credentials:
+   * customer - TEST_USER_EMAIL / TEST_USER_PASSWORD, falling back to ApiTestData.AUTH.VALID_CREDENTIALS
+   * admin - TEST_ADMIN_EMAIL / TEST_ADMIN_PASSWORD (logging in fails if the password is empty)
+   */
+  static getDefaultRoles(): Record<string, AuthCredentials> {
+    const roles: Record<string, AuthCredentials> = {
+      customer: {
+        email: Env.get('TEST_USER_EMAIL', ApiTestData.AUTH.VALID_CREDENTIALS.email),
+        password: Env.get('TEST_USER_PASSWORD', ApiTestData.AUTH.VALID_CREDENTIALS.password),
+      },
+    };
+
+    if (Env.get('TEST_ADMIN_EMAIL')) {
+      roles.admin = { email: Env.get('TEST_ADMIN_EMAIL'), password: Env.get('TEST_ADMIN_PASSWORD') };
+    }
+
+    return roles;
+  }
+
+  /**
+   * Get a valid access token for a role, logging in or refreshing as needed
+   */
+  async getToken(role: string = 'customer'): Promise<string> {
+    const cached = AuthSessionManager.tokenCache.get(this.cacheKey(role));
+
+    if (cached && !this.isExpiring(cached)) {
+      return cached.accessToken;
+    }
+
+    const tokens = cached ? await this.refresh(role) : await this.login(role);
+    return tokens.accessToken;
+  }
+
+  /**
+   * Log in a role and cache its tokens (concurrent calls share one login)
+   */
+  async login(role: string = 'customer'): Promise<AuthTokens> {
+    const key = this.cacheKey(role);
+    const pending = AuthSessionManager.pendingLogins.get(key);
+    if (pending) return pending;
+
+    const credentials = this.roles[role];
+    if (!credentials) {
+      throw new Error(`No credentials configured for role "${role}"`);
+    }
+    if (!credentials.password) {
+      throw new Error(`No password configured for role "${role}" (default roles read TEST_USER_PASSWORD and TEST_ADMIN_PASSWORD)`);
+    }
+
+    const login = (async () => {
+      Logger.info(`Logging in as ${role}`);
+      const response = await this.client.post(Endpoints.AUTH.LOGIN, credentials, {
+        failOnStatusCode: false,
+        metadata: { [SKIP_AUTH]: true },
+      });
+
+      if (response.status >= 400) {
+        throw new Error(`Login failed for role "${role}": ${response.status} ${response.statusText}`);
+      }
+
+      return this.store(role, this.parseTokens(response.body));
+    })();
+
+    AuthSessionManager.pendingLogins.set(key, login);
+    try {
+      return await login;
+    } finally {
+      AuthSessionManager.pendingLogins.delete(key);
+    }
+  }
+
+  /**
+   * Refresh a role's token through Endpoints.AUTH.REFRESH_TOKEN, logging in again if that fails.
+   * Concurrent calls share one refresh, since rotating refresh tokens are only valid once.
+   */
+  async refresh(role: string = 'customer'): Promise<AuthTokens> {
+    const key = this.cacheKey(role);
+    const pending = AuthSessionManager.pendingRefreshes.get(key);
+    if (pending) return pending;
+
+    const cached = AuthSessionManager.tokenCache.get(key);
+    if (!cached?.refreshToken) {
+      return this.login(role);
+    }
+
+    const refresh = (async () => {
+      Logger.info(`Refreshing token for ${role}`);
+      const response = await this.client.post(
+        Endpoints.AUTH.REFRESH_TOKEN,
+        { refreshToken: cached.refreshToken },
+        { failOnStatusCode: false, metadata: { [SKIP_AUTH]: true } }
+      );
+
+      if (response.status >= 400) {
+        Logger.warn(`Token refresh failed for ${role} (${response.status}), logging in again`);
+        AuthSessionManager.tokenCache.delete(key);
+        return this.login(role);
+      }
+
+      const tokens = this.parseTokens(response.body);
+      return this.store(role, { ...tokens, refreshToken: tokens.refreshToken || cached.refreshToken });
+    })();
+
+    AuthSessionManager.pendingRefreshes.set(key, refresh);
+    try {
+      return await refresh;
+    } finally {
+      AuthSessionManager.pendingRefreshes.delete(key);
+    }
+  }
+
+  /**
+   * Forget cached tokens for one role or every role
+   */
+  clear(role?: string): void {
+    if (role) {
+      AuthSessionManager.tokenCache.delete(this.cacheKey(role));
+      return;
+    }
+    Object.keys(this.roles).forEach(name => AuthSessionManager.tokenCache.delete(this.cacheKey(name)));
+  }
+
+  /**
+   * Middleware that authenticates requests as a role.
+   * A 401 response triggers one token refresh and a single replay of the request.
+   */
+  middleware(role: string = 'customer'): ApiMiddleware {
+    return {
+      name: 'auth-session',
+      handle: async (request, next) => {
+        if (request.metadata[SKIP_AUTH]) return next(request);
+
+        // A 401 must come back as a response to be refreshed; the caller's failOnStatusCode applies to the final one
+        const attempt = { ...request, failOnStatusCode: false };
+        let response = await next(this.withToken(attempt, await this.getToken(role)));
+
+        if (response.status === 401) {
+          Logger.warn(`Received 401 for ${request.method} ${request.endpoint}, refreshing ${role} token and retrying`);
+          const tokens = await this.refresh(role);
+          response = await next(this.withToken({ ...attempt, metadata: { ...request.metadata, authReplayed: true } }, tokens.accessToken));
+        }
+
+        ApiStatusError.throwIfFailed(request, response.status, response.statusText);
+        return response;
+      },
+    };
+  }
+
+  private withToken(request: ApiRequest, token: string): ApiRequest {
+    const headers = Object.fromEntries(
+      Object.entries(request.headers).filter(([name]) => name.toLowerCase() !== 'authorization')
+    );
+    return { ...request, headers: { ...headers, Authorization: `Bearer ${token}` } };
+  }
+
+  private store(role: string, tokens: AuthTokens): AuthTokens {
+    AuthSessionManager.tokenCache.set(this.cacheKey(role), tokens);
+    return tokens;
+  }
+
+  private isExpiring(tokens: AuthTokens): boolean {
+    return tokens.expiresAt !== undefined && tokens.expiresAt - this.refreshMarginMs <= Date.now();
+  }
+
+  private cacheKey(role: string): string {
+    return `${this.client.getBaseUrl()}|${role}`;
+  }
+
+  /**
+   * Read tokens from common response shapes ({ token }, { accessToken }, { access_token }, { data: { ... } })
+   */
+  private parseTokens(body: any): AuthTokens {
+    const source = body?.data && typeof body.data === 'object' ? body.data : body || {};
+    const accessToken = source.accessToken || source.access_token || source.token;
+    if (!accessToken) {
+      throw new Error('Auth response did not contain an access token');
+    }
+
+    const refreshToken = source.refreshToken || source.refresh_token;
+    const expiresIn = Number(source.expiresIn ?? source.expires_in);
+    const expiresAt = !isNaN(expiresIn) && expiresIn > 0
+      ? Date.now() + expiresIn * 1000
+      : this.getJwtExpiry(accessToken);
+
+    return { accessToken, refreshToken, expiresAt };
+  }
+
+  private getJwtExpiry(token: string): number | undefined {
+    const payload = token.split('.')[1];
+    if (!payload) return undefined;
+
+    try {
+      const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8'));
+      return typeof claims.exp === 'number' ? claims.exp * 1000 : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+}
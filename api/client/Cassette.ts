@@ -0,0 +1,489 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { APIResponse, TestInfo } from '@playwright/test';
+import type { ApiRequest } from './ApiMiddleware';
+import { Env } from '../../config/env';
+import { Logger } from '../../utils/Logger';
+import { Redactor, RedactionSummary } from '../../utils/Redactor';
+
+/**
+ * Cassette modes:
+ * off - always use the network
+ * record - send every request and save every exchange, replacing the cassette
+ * replay - answer from the cassette only; unknown requests fail without touching the network
+ * new-episodes - answer known requests from the cassette, send and record the rest
+ */
+export type CassetteMode = 'off' | 'record' | 'replay' | 'new-episodes';
+
+/**
+ * How live requests are matched against recorded ones
+ */
+export interface CassetteMatchOptions {
+  /** Compare scheme, host and port, not just path and query (default: true) */
+  matchOrigin?: boolean;
+  /** Query parameters ignored when comparing URLs (e.g. cache busters) */
+  ignoreQueryParams?: string[];
+  /** Compare request headers not listed in ignoreHeaders (default: false) */
+  matchHeaders?: boolean;
+  /** Headers never compared (default: DEFAULT_IGNORED_HEADERS) */
+  ignoreHeaders?: string[];
+  /** Compare request bodies (default: true) */
+  matchBody?: boolean;
+  /**
+   * JSON paths removed from request bodies before comparing, in Redactor path syntax
+   * (e.g. `**.timestamp`, `order.clientReference`)
+   */
+  ignoreBodyFields?: string[];
+}
+
+/**
+ * Cassette options
+ */
+export interface CassetteOptions extends CassetteMatchOptions {
+  /** Cassette file path */
+  file: string;
+  /** Mode (default: API_CASSETTE_MODE or off) */
+  mode?: CassetteMode;
+  /** Redactor for recorded requests and response headers; null disables redaction (default: Redactor.fromEnv()) */
+  redactor?: Redactor | null;
+}
+
+/**
+ * Recorded request (already redacted)
+ */
+export interface CassetteRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: any;
+}
+
+/**
+ * Recorded response. JSON bodies are stored parsed, text as-is and binary as base64.
+ */
+export interface CassetteResponse {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: any;
+  bodyEncoding: 'json' | 'utf8' | 'base64';
+}
+
+/**
+ * One recorded exchange
+ */
+export interface CassetteEntry {
+  recordedAt: string;
+  request: CassetteRequest;
+  response: CassetteResponse;
+}
+
+/**
+ * Cassette file structure
+ */
+export interface CassetteFile {
+  name: string;
+  recordedAt: string;
+  redaction?: RedactionSummary;
+  entries: CassetteEntry[];
+}
+
+/**
+ * Thrown in replay mode when a request has no recording
+ */
+export class CassetteMismatchError extends Error {
+  readonly request: CassetteRequest;
+
+  constructor(cassette: string, request: CassetteRequest, candidates: CassetteEntry[]) {
+    const similar = candidates.length > 0
+      ? `\nRecorded ${request.method} requests for this path:\n${candidates.map(entry => `  ${entry.request.method} ${entry.request.url} ${JSON.stringify(entry.request.body ?? null)}`).join('\n')}`
+      : '';
+    super(`No recording in cassette ${cassette} for ${request.method} ${request.url} ${JSON.stringify(request.body ?? null)}${similar}`);
+    this.name = 'CassetteMismatchError';
+    this.request = request;
+  }
+}
+
+/**
+ * Headers that change between runs and are never compared
+ */
+export const DEFAULT_IGNORED_HEADERS = [
+  'authorization',
+  'cookie',
+  'date',
+  'user-agent',
+  'content-length',
+  'idempotency-key',
+  'x-request-id',
+  'x-correlation-id',
+  'traceparent',
+  'tracestate',
+];
+
+/**
+ * Response headers that describe the original wire encoding, not the stored body
+ */
+const WIRE_HEADERS = ['content-encoding', 'content-length', 'transfer-encoding', 'connection'];
+
+/**
+ * Stand-in for a Playwright APIResponse when answering from a cassette
+ */
+class ReplayedResponse implements APIResponse {
+  private readonly requestUrl: string;
+  private readonly recorded: CassetteResponse;
+  private readonly buffer: Buffer;
+
+  constructor(requestUrl: string, recorded: CassetteResponse, buffer: Buffer) {
+    this.requestUrl = requestUrl;
+    this.recorded = recorded;
+    this.buffer = buffer;
+  }
+
+  async body(): Promise<Buffer> {
+    return this.buffer;
+  }
+
+  async text(): Promise<string> {
+    return this.buffer.toString('utf-8');
+  }
+
+  async json(): Promise<any> {
+    return JSON.parse(this.buffer.toString('utf-8'));
+  }
+
+  headers(): Record<string, string> {
+    return { ...this.recorded.headers };
+  }
+
+  headersArray(): Array<{ name: string; value: string }> {
+    return Object.entries(this.recorded.headers).flatMap(([name, value]) =>
+      value.split('\n').map(part => ({ name, value: part }))
+    );
+  }
+
+  ok(): boolean {
+    return this.recorded.status >= 200 && this.recorded.status < 300;
+  }
+
+  status(): number {
+    return this.recorded.status;
+  }
+
+  statusText(): string {
+    return this.recorded.statusText;
+  }
+
+  url(): string {
+    return this.requestUrl;
+  }
+
+  async dispose(): Promise<void> {}
+
+  async [Symbol.asyncDispose](): Promise<void> {}
+}
+
+/**
+ * Cassette
+ *
+ * VCR-style record and playback of ApiClient traffic, one file per test. Attach it with
+ * ApiClient.setCassette; the API fixtures do this from API_CASSETTE_MODE. Response bodies
+ * are stored unredacted so replays behave exactly like the recorded run.
+ */
+export class Cassette {
+  static readonly CASSETTE_FOLDER = path.resolve(process.cwd(), Env.get('API_CASSETTE_DIR', 'cassettes'));
+
+  readonly mode: CassetteMode;
+  private readonly file: string;
+  private readonly options: CassetteOptions;
+  private readonly redactor: Redactor | null;
+  private readonly ignoredHeaders: Set<string>;
+  private readonly ignoredFields: string[][];
+  private entries: CassetteEntry[] = [];
+  private readonly served = new Map<string, number>();
+  private changed = false;
+
+  constructor(options: CassetteOptions) {
+    this.options = options;
+    this.file = options.file;
+    this.mode = options.mode ?? Cassette.getEnvMode();
+    this.redactor = options.redactor !== undefined ? options.redactor : Redactor.fromEnv();
+    this.ignoredHeaders = new Set((options.ignoreHeaders ?? DEFAULT_IGNORED_HEADERS).map(header => header.toLowerCase()));
+    this.ignoredFields = (options.ignoreBodyFields ?? []).map(field => field.split('.'));
+
+    // Record mode starts a fresh cassette
+    if (this.mode !== 'record' && fs.existsSync(this.file)) {
+      this.entries = (JSON.parse(fs.readFileSync(this.file, 'utf-8')) as CassetteFile).entries;
+    } else if (this.mode === 'replay') {
+      Logger.warn(`Cassette not found, every request will fail: ${this.file}`);
+    }
+  }
+
+  /**
+   * Mode from API_CASSETTE_MODE (default: off)
+   */
+  static getEnvMode(): CassetteMode {
+    const mode = Env.get('API_CASSETTE_MODE', 'off') as CassetteMode;
+    if (!['off', 'record', 'replay', 'new-episodes'].includes(mode)) {
+      throw new Error(`Invalid API_CASSETTE_MODE "${mode}" (expected off, record, replay or new-episodes)`);
+    }
+    return mode;
+  }
+
+  /**
+   * Cassette for the running test, or null when cassettes are off
+   * @param testInfo - Running test
+   * @param options - Matching options and mode override
+   */
+  static forTest(testInfo: TestInfo, options: Omit<CassetteOptions, 'file'> = {}): Cassette | null {
+    const mode = options.mode ?? Cassette.getEnvMode();
+    if (mode === 'off') return null;
+
+    const sanitize = (value: string) => value.replace(/[^a-zA-Z0-9\s-]/g, '').trim().replace(/\s+/g, '-').toLowerCase();
+    const specName = path.basename(testInfo.file).replace(/\.(spec|test)\.[jt]s$/, '');
+    const testName = sanitize(testInfo.titlePath.slice(1).join(' ')).substring(0, 120);
+
+    return new Cassette({
+      ignoreBodyFields: Env.get('API_CASSETTE_IGNORE_FIELDS').split(',').map(field => field.trim()).filter(Boolean),
+      ...options,
+      mode,
+      file: path.join(Cassette.CASSETTE_FOLDER, sanitize(specName), `${testName}.json`),
+    });
+  }
+
+  /**
+   * Whether a request will be answered from the cassette (it then skips rate limiting)
+   */
+  willReplay(request: ApiRequest): boolean {
+    if (this.mode === 'replay') return true;
+    return this.mode === 'new-episodes' && this.findEntries(this.toRecordedRequest(request)).length > 0;
+  }
+
+  /**
+   * Answer a request from the cassette or send it and record the exchange.
+   * Error statuses are returned like any other, so they are recorded and replayed too.
+   * @param request - Outgoing request
+   * @param send - Sends the request over the network (without failing on status)
+   */
+  async fetch(request: ApiRequest, send: () => Promise<APIResponse>): Promise<APIResponse> {
+    const recorded = this.toRecordedRequest(request);
+    const entry = this.mode === 'record' || this.mode === 'off' ? undefined : this.nextEntry(recorded);
+
+    let response: APIResponse;
+    if (this.mode === 'off') {
+      response = await send();
+    } else if (entry) {
+      Logger.debug(`Cassette replayed ${recorded.method} ${recorded.url} (${entry.response.status})`);
+      response = new ReplayedResponse(request.url, entry.response, this.decodeBody(entry.response));
+    } else if (this.mode === 'replay') {
+      throw new CassetteMismatchError(this.file, recorded, this.entries.filter(candidate =>
+        candidate.request.method === recorded.method &&
+        this.normalizeUrl(candidate.request.url).split('?')[0] === this.normalizeUrl(recorded.url).split('?')[0]
+      ));
+    } else {
+      response = await send();
+      this.entries.push({ recordedAt: new Date().toISOString(), request: recorded, response: await this.toRecordedResponse(response) });
+      this.changed = true;
+      Logger.debug(`Cassette recorded ${recorded.method} ${recorded.url} (${response.status()})`);
+    }
+
+    return response;
+  }
+
+  /**
+   * Write the cassette if anything was recorded
+   */
+  save(): void {
+    if (!this.changed) return;
+
+    const cassette: CassetteFile = {
+      name: path.basename(this.file, '.json'),
+      recordedAt: new Date().toISOString(),
+      redaction: this.redactor?.describe(),
+      entries: this.entries,
+    };
+
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    fs.writeFileSync(this.file, JSON.stringify(cassette, null, 2), 'utf-8');
+    this.changed = false;
+    Logger.info(`Cassette saved: ${this.entries.length} exchanges → ${path.relative(process.cwd(), this.file)}`);
+  }
+
+  getFile(): string {
+    return this.file;
+  }
+
+  getEntries(): CassetteEntry[] {
+    return [...this.entries];
+  }
+
+  /**
+   * Next matching entry; repeated requests are served in recorded order and the last one is reused
+   */
+  private nextEntry(request: CassetteRequest): CassetteEntry | undefined {
+    const candidates = this.findEntries(request);
+    if (candidates.length === 0) return undefined;
+
+    const key = this.getMatchKey(request);
+    const index = this.served.get(key) || 0;
+    this.served.set(key, index + 1);
+    return candidates[Math.min(index, candidates.length - 1)];
+  }
+
+  private findEntries(request: CassetteRequest): CassetteEntry[] {
+    const key = this.getMatchKey(request);
+    return this.entries.filter(entry => this.getMatchKey(entry.request) === key);
+  }
+
+  /**
+   * Everything that has to be equal for two requests to match
+   */
+  private getMatchKey(request: CassetteRequest): string {
+    const parts = [request.method.toUpperCase(), this.normalizeUrl(request.url)];
+
+    if (this.options.matchHeaders) {
+      const headers = Object.entries(request.headers)
+        .map(([name, value]) => [name.toLowerCase(), value])
+        .filter(([name]) => !this.ignoredHeaders.has(name))
+        .sort(([a], [b]) => a.localeCompare(b));
+      parts.push(JSON.stringify(headers));
+    }
+
+    if (this.options.matchBody !== false) {
+      parts.push(this.stableStringify(this.removeIgnoredFields(request.body, [])));
+    }
+
+    return parts.join(' ');
+  }
+
+  /**
+   * URL without ignored query parameters, with the remaining ones sorted
+   */
+  private normalizeUrl(url: string): string {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return url;
+    }
+
+    const ignored = this.options.ignoreQueryParams || [];
+    const params = [...parsed.searchParams.entries()]
+      .filter(([name]) => !ignored.includes(name))
+      .sort(([a], [b]) => a.localeCompare(b));
+    const query = params.length > 0 ? `?${new URLSearchParams(params).toString()}` : '';
+    const origin = this.options.matchOrigin === false ? '' : parsed.origin;
+
+    return `${origin}${parsed.pathname}${query}`;
+  }
+
+  /**
+   * Request as stored in the cassette (redacted; form and multipart bodies as objects)
+   */
+  private toRecordedRequest(request: ApiRequest): CassetteRequest {
+    let body: any = request.data;
+    if (request.form) {
+      body = Object.fromEntries(Object.entries(request.form).map(([field, value]) => [field, String(value)]));
+    } else if (request.multipart) {
+      body = Object.fromEntries(Object.entries(request.multipart).map(([field, value]) => [
+        field,
+        typeof value === 'object' ? `<file ${value.name} ${value.mimeType} ${value.buffer.length} bytes>` : String(value),
+      ]));
+    } else if (Buffer.isBuffer(body)) {
+      body = `<binary base64:${body.toString('base64')}>`;
+    } else if (typeof body === 'string') {
+      try {
+        body = JSON.parse(body);
+      } catch {
+        // Keep raw text
+      }
+    }
+
+    const redactor = this.redactor;
+    return {
+      method: request.method,
+      url: redactor ? redactor.redactUrl(request.url) : request.url,
+      headers: redactor ? redactor.redactHeaders(request.headers) : { ...request.headers },
+      ...(body !== undefined ? { body: redactor ? redactor.redactBody(body, request.url) : body } : {}),
+    };
+  }
+
+  private async toRecordedResponse(response: APIResponse): Promise<CassetteResponse> {
+    const buffer = await response.body();
+    const headers = Object.fromEntries(
+      Object.entries(response.headers()).filter(([name]) => !WIRE_HEADERS.includes(name.toLowerCase()))
+    );
+    const contentType = (headers['content-type'] || '').toLowerCase();
+
+    let body: any;
+    let bodyEncoding: CassetteResponse['bodyEncoding'];
+    if (contentType.includes('json')) {
+      try {
+        body = buffer.length > 0 ? JSON.parse(buffer.toString('utf-8')) : '';
+        bodyEncoding = buffer.length > 0 ? 'json' : 'utf8';
+      } catch {
+        body = buffer.toString('utf-8');
+        bodyEncoding = 'utf8';
+      }
+    } else if (contentType === '' || /^text\/|xml|javascript|x-www-form-urlencoded/.test(contentType)) {
+      body = buffer.toString('utf-8');
+      bodyEncoding = 'utf8';
+    } else {
+      body = buffer.toString('base64');
+      bodyEncoding = 'base64';
+    }
+
+    return {
+      status: response.status(),
+      statusText: response.statusText(),
+      headers: this.redactor ? this.redactor.redactHeaders(headers) : headers,
+      body,
+      bodyEncoding,
+    };
+  }
+
+  private decodeBody(response: CassetteResponse): Buffer {
+    switch (response.bodyEncoding) {
+      case 'json':
+        return Buffer.from(JSON.stringify(response.body), 'utf-8');
+      case 'base64':
+        return Buffer.from(response.body, 'base64');
+      default:
+        return Buffer.from(response.body ?? '', 'utf-8');
+    }
+  }
+
+  /**
+   * Drop ignored body fields (same path syntax as Redactor: `*` any key, leading `**.` any depth)
+   */
+  private removeIgnoredFields(value: any, currentPath: string[]): any {
+    if (Array.isArray(value)) {
+      return value.map((item, index) => this.removeIgnoredFields(item, [...currentPath, String(index)]));
+    }
+    if (value === null || typeof value !== 'object') return value;
+
+    return Object.fromEntries(Object.entries(value)
+      .filter(([key]) => !this.isIgnoredField([...currentPath, key]))
+      .map(([key, item]) => [key, this.removeIgnoredFields(item, [...currentPath, key])]));
+  }
+
+  private isIgnoredField(fieldPath: string[]): boolean {
+    const matches = (rule: string[], segments: string[]) =>
+      rule.every((segment, index) => segment === '*' || segment === segments[index]);
+
+    return this.ignoredFields.some(rule => rule[0] === '**'
+      ? fieldPath.length >= rule.length - 1 && matches(rule.slice(1), fieldPath.slice(fieldPath.length - rule.length + 1))
+      : rule.length === fieldPath.length && matches(rule, fieldPath));
+  }
+
+  /**
+   * JSON with sorted object keys, so key order does not affect matching
+   */
+  private stableStringify(value: any): string {
+    if (value === undefined) return '';
+    if (Array.isArray(value)) return `[${value.map(item => this.stableStringify(item)).join(',')}]`;
+    if (value !== null && typeof value === 'object') {
+      return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${this.stableStringify(value[key])}`).join(',')}}`;
+    }
+    return JSON.stringify(value);
+  }
+}
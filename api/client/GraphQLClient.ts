@@ -0,0 +1,237 @@
+import * as crypto from 'crypto';
+import { ApiClient, ApiRequestOptions, ApiResponse } from './ApiClient';
+import { DEFAULT_RETRY_POLICY } from './RetryPolicy';
+import { Env } from '../../config/env';
+
+/**
+ * GraphQL operation
+ */
+export interface GraphQLOperation<V = Record<string, any>> {
+  query: string;
+  variables?: V;
+  /** Defaults to the name declared in the query */
+  operationName?: string;
+  /** Send as an automatic persisted query (hash first, full query only if the server asks) */
+  persisted?: boolean;
+}
+
+/**
+ * GraphQL error as returned in the `errors` array
+ */
+export interface GraphQLError {
+  message: string;
+  locations?: Array<{ line: number; column: number }>;
+  path?: Array<string | number>;
+  extensions?: Record<string, any>;
+}
+
+/**
+ * Result of a GraphQL operation
+ */
+export interface GraphQLResult<T = any> {
+  data: T | null;
+  errors: GraphQLError[];
+  extensions?: Record<string, any>;
+  operationName?: string;
+  response: ApiResponse;
+}
+
+/**
+ * GraphQL client options
+ */
+export interface GraphQLClientOptions {
+  /** Extra headers sent with every operation */
+  headers?: Record<string, string>;
+  /** Use automatic persisted queries for every operation (default: false) */
+  persistedQueries?: boolean;
+}
+
+/**
+ * Thrown when a GraphQL response contains errors (including on HTTP 200)
+ */
+export class GraphQLResponseError extends Error {
+  readonly errors: GraphQLError[];
+  readonly operationName?: string;
+  readonly result: GraphQLResult;
+
+  constructor(result: GraphQLResult) {
+    const summary = result.errors
+      .map(error => `${error.message}${error.path ? ` (at ${error.path.join('.')})` : ''}`)
+      .join('; ');
+    super(`GraphQL ${result.operationName || 'operation'} failed with HTTP ${result.response.status}: ${summary}`);
+    this.name = 'GraphQLResponseError';
+    this.errors = result.errors;
+    this.operationName = result.operationName;
+    this.result = result;
+  }
+}
+
+/**
+ * Error codes servers use when a persisted query hash is unknown
+ */
+const PERSISTED_QUERY_NOT_FOUND = ['PERSISTED_QUERY_NOT_FOUND', 'PersistedQueryNotFound'];
+
+/**
+ * GraphQL Client
+ *
+ * Sends queries and mutations through ApiClient, so middlewares, auth sessions,
+ * retries and timing apply to GraphQL traffic as well.
+ */
+export class GraphQLClient {
+  private readonly client: ApiClient;
+  private readonly endpoint: string;
+  private readonly options: GraphQLClientOptions;
+
+  constructor(client: ApiClient, endpoint: string = Env.get('GRAPHQL_ENDPOINT', '/graphql'), options: GraphQLClientOptions = {}) {
+    this.client = client;
+    this.endpoint = endpoint;
+    this.options = options;
+  }
+
+  /**
+   * GraphQL client for the Shopify Storefront API
+   * @param client - ApiClient pointed at the shop domain
+   * @param accessToken - Storefront access token (default: SHOPIFY_STOREFRONT_TOKEN)
+   * @param apiVersion - API version (default: SHOPIFY_STOREFRONT_API_VERSION or 2024-10)
+   */
+  static forShopifyStorefront(
+    client: ApiClient,
+    accessToken: string = Env.get('SHOPIFY_STOREFRONT_TOKEN'),
+    apiVersion: string = Env.get('SHOPIFY_STOREFRONT_API_VERSION', '2024-10')
+  ): GraphQLClient {
+    return new GraphQLClient(client, `/api/${apiVersion}/graphql.json`, {
+      headers: accessToken ? { 'X-Shopify-Storefront-Access-Token': accessToken } : {},
+    });
+  }
+
+  /**
+   * SHA-256 hash of a query as used by automatic persisted queries
+   */
+  static hashQuery(query: string): string {
+    return crypto.createHash('sha256').update(query).digest('hex');
+  }
+
+  /**
+   * Run an operation and return data and errors without throwing on GraphQL errors
+   */
+  async execute<T = any, V = Record<string, any>>(
+    operation: GraphQLOperation<V>,
+    options: Omit<ApiRequestOptions, 'method' | 'data'> = {}
+  ): Promise<GraphQLResult<T>> {
+    const operationName = operation.operationName || this.getOperationName(operation.query);
+    const requestOptions = this.buildRequestOptions(operation.query, options);
+    const persisted = operation.persisted ?? this.options.persistedQueries ?? false;
+
+    const payload: Record<string, any> = {
+      ...(operationName ? { operationName } : {}),
+      ...(operation.variables ? { variables: operation.variables } : {}),
+    };
+
+    if (persisted) {
+      const extensions = { persistedQuery: { version: 1, sha256Hash: GraphQLClient.hashQuery(operation.query) } };
+      const hashOnly = this.toResult<T>(
+        await this.client.post(this.endpoint, { ...payload, extensions }, requestOptions),
+        operationName
+      );
+
+      if (!this.isPersistedQueryNotFound(hashOnly)) {
+        return hashOnly;
+      }
+
+      // Register the query with the server and run it
+      return this.toResult<T>(
+        await this.client.post(this.endpoint, { ...payload, query: operation.query, extensions }, requestOptions),
+        operationName
+      );
+    }
+
+    return this.toResult<T>(
+      await this.client.post(this.endpoint, { ...payload, query: operation.query }, requestOptions),
+      operationName
+    );
+  }
+
+  /**
+   * Run a query and return its data
+   * @throws GraphQLResponseError when the response contains errors
+   */
+  async query<T = any, V = Record<string, any>>(
+    query: string,
+    variables?: V,
+    options?: Omit<ApiRequestOptions, 'method' | 'data'>
+  ): Promise<T> {
+    return this.dataOrThrow(await this.execute<T, V>({ query, variables }, options));
+  }
+
+  /**
+   * Run a mutation and return its data
+   * @throws GraphQLResponseError when the response contains errors
+   */
+  async mutate<T = any, V = Record<string, any>>(
+    mutation: string,
+    variables?: V,
+    options?: Omit<ApiRequestOptions, 'method' | 'data'>
+  ): Promise<T> {
+    return this.dataOrThrow(await this.execute<T, V>({ query: mutation, variables }, options));
+  }
+
+  private dataOrThrow<T>(result: GraphQLResult<T>): T {
+    if (result.errors.length > 0 || result.data === null) {
+      throw new GraphQLResponseError(
+        result.errors.length > 0 ? result : { ...result, errors: [{ message: 'Response contained no data' }] }
+      );
+    }
+    return result.data;
+  }
+
+  /**
+   * Queries are read-only, so they may be retried like idempotent requests
+   */
+  private buildRequestOptions(query: string, options: Omit<ApiRequestOptions, 'method' | 'data'>): Omit<ApiRequestOptions, 'method'> {
+    const isQuery = this.getOperationType(query) === 'query';
+    const retry = options.retry === false || !isQuery
+      ? options.retry
+      : { idempotentMethods: [...DEFAULT_RETRY_POLICY.idempotentMethods, 'POST'], ...options.retry };
+
+    return {
+      ...options,
+      headers: { ...this.options.headers, ...options.headers },
+      retry,
+      failOnStatusCode: options.failOnStatusCode ?? false,
+    };
+  }
+
+  private toResult<T>(response: ApiResponse, operationName?: string): GraphQLResult<T> {
+    const body = response.body && typeof response.body === 'object' && !Buffer.isBuffer(response.body)
+      ? response.body
+      : {};
+    const errors: GraphQLError[] = Array.isArray(body.errors) ? body.errors : [];
+
+    if (errors.length === 0 && response.status >= 400) {
+      errors.push({ message: `HTTP ${response.status} ${response.statusText}` });
+    }
+
+    return {
+      data: body.data ?? null,
+      errors,
+      extensions: body.extensions,
+      operationName,
+      response,
+    };
+  }
+
+  private isPersistedQueryNotFound(result: GraphQLResult): boolean {
+    return result.errors.some(error =>
+      PERSISTED_QUERY_NOT_FOUND.includes(error.extensions?.code) || PERSISTED_QUERY_NOT_FOUND.includes(error.message)
+    );
+  }
+
+  private getOperationName(query: string): string | undefined {
+    return query.match(/^\s*(?:query|mutation|subscription)\s+([_A-Za-z][_0-9A-Za-z]*)/m)?.[1];
+  }
+
+  private getOperationType(query: string): 'query' | 'mutation' | 'subscription' {
+    const match = query.match(/^\s*(query|mutation|subscription)\b/m);
+    return (match?.[1] as 'query' | 'mutation' | 'subscription') || 'query';
+  }
+}
@@ -0,0 +1,262 @@
+import type { ApiClient, ApiRequestOptions, ApiResponse } from './ApiClient';
+import type { QueryParams } from './QueryString';
+
+/**
+ * Page-number pagination (?page=2&limit=50)
+ */
+export interface PageNumberStrategy {
+  type: 'page';
+  pageParam?: string;
+  sizeParam?: string;
+  pageSize?: number;
+  /** First page number (default: 1) */
+  startPage?: number;
+  /** Path to the total page count in the body (e.g. 'meta.totalPages') */
+  totalPagesPath?: string;
+  itemsPath?: string;
+}
+
+/**
+ * Cursor pagination (?cursor=abc, next cursor read from the body)
+ */
+export interface CursorStrategy {
+  type: 'cursor';
+  cursorParam?: string;
+  /** Path to the next cursor in the body (e.g. 'meta.nextCursor') */
+  nextCursorPath: string;
+  sizeParam?: string;
+  pageSize?: number;
+  itemsPath?: string;
+}
+
+/**
+ * RFC 8288 Link header pagination (follows rel="next")
+ */
+export interface LinkHeaderStrategy {
+  type: 'link';
+  itemsPath?: string;
+}
+
+/**
+ * Shopify page_info pagination (Link header cursor; later pages send only limit and page_info)
+ */
+export interface ShopifyPageInfoStrategy {
+  type: 'shopify';
+  limit?: number;
+  itemsPath?: string;
+}
+
+/**
+ * Supported pagination strategies
+ */
+export type PaginationStrategy = PageNumberStrategy | CursorStrategy | LinkHeaderStrategy | ShopifyPageInfoStrategy;
+
+/**
+ * Pagination options
+ */
+export interface PaginateOptions extends Omit<ApiRequestOptions, 'method' | 'data'> {
+  /** Stop after this many items */
+  maxItems?: number;
+  /** Stop after this many pages (default: 100) */
+  maxPages?: number;
+}
+
+/**
+ * One fetched page
+ */
+export interface Page<T> {
+  pageNumber: number;
+  items: T[];
+  response: ApiResponse;
+}
+
+/**
+ * Timing of one fetched page
+ */
+export interface PageTiming {
+  pageNumber: number;
+  url: string;
+  items: number;
+  duration: number;
+  responseSize: number;
+}
+
+/**
+ * Array properties tried when no itemsPath is given
+ */
+const DEFAULT_ITEM_KEYS = ['items', 'data', 'results', 'nodes', 'products', 'orders', 'users', 'collections'];
+
+/**
+ * Paginator
+ *
+ * Walks every page of a list endpoint. Iterate it with `for await` to get items,
+ * or use pages() for whole pages; per-page timing is collected in `timings`.
+ */
+export class Paginator<T = any> implements AsyncIterable<T> {
+  readonly timings: PageTiming[] = [];
+  private readonly client: ApiClient;
+  private readonly endpoint: string;
+  private readonly strategy: PaginationStrategy;
+  private readonly options: PaginateOptions;
+
+  constructor(client: ApiClient, endpoint: string, strategy: PaginationStrategy, options: PaginateOptions = {}) {
+    this.client = client;
+    this.endpoint = endpoint;
+    this.strategy = strategy;
+    this.options = options;
+  }
+
+  /**
+   * Iterate pages until the strategy runs out or a limit is reached
+   */
+  async *pages(): AsyncGenerator<Page<T>> {
+    const { maxItems, maxPages = 100, params = {}, ...requestOptions } = this.options;
+    let endpoint = this.endpoint;
+    let pageParams: QueryParams | undefined = { ...params, ...this.getInitialParams() };
+    let itemCount = 0;
+
+    for (let pageNumber = 1; pageNumber <= maxPages; pageNumber++) {
+      const response = await this.client.get(endpoint, { ...requestOptions, params: pageParams });
+      let items = this.getItems(response.body);
+
+      if (maxItems !== undefined && itemCount + items.length > maxItems) {
+        items = items.slice(0, maxItems - itemCount);
+      }
+      itemCount += items.length;
+
+      this.timings.push({
+        pageNumber,
+        url: response.response.url(),
+        items: items.length,
+        duration: response.timing.duration,
+        responseSize: response.timing.responseSize,
+      });
+      yield { pageNumber, items, response };
+
+      if (maxItems !== undefined && itemCount >= maxItems) return;
+
+      const next = this.getNextRequest(response, items, pageNumber, params);
+      if (!next) return;
+      endpoint = next.endpoint;
+      pageParams = next.params;
+    }
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterator<T> {
+    for await (const page of this.pages()) {
+      yield* page.items;
+    }
+  }
+
+  /**
+   * Collect every item
+   */
+  async toArray(): Promise<T[]> {
+    const items: T[] = [];
+    for await (const item of this) {
+      items.push(item);
+    }
+    return items;
+  }
+
+  private getInitialParams(): QueryParams {
+    switch (this.strategy.type) {
+      case 'page':
+        return {
+          [this.strategy.pageParam || 'page']: this.strategy.startPage ?? 1,
+          ...(this.strategy.pageSize ? { [this.strategy.sizeParam || 'limit']: this.strategy.pageSize } : {}),
+        };
+      case 'cursor':
+        return this.strategy.pageSize ? { [this.strategy.sizeParam || 'limit']: this.strategy.pageSize } : {};
+      case 'shopify':
+        return this.strategy.limit ? { limit: this.strategy.limit } : {};
+      default:
+        return {};
+    }
+  }
+
+  /**
+   * Endpoint and params of the next page, or null on the last page
+   */
+  private getNextRequest(
+    response: ApiResponse,
+    items: T[],
+    pageNumber: number,
+    params: QueryParams
+  ): { endpoint: string; params?: QueryParams } | null {
+    const strategy = this.strategy;
+
+    switch (strategy.type) {
+      case 'page': {
+        const totalPages = strategy.totalPagesPath ? Number(this.getPath(response.body, strategy.totalPagesPath)) : NaN;
+        const isLastPage = !isNaN(totalPages)
+          ? pageNumber >= totalPages
+          : items.length === 0 || (strategy.pageSize !== undefined && items.length < strategy.pageSize);
+        if (isLastPage) return null;
+
+        return {
+          endpoint: this.endpoint,
+          params: { ...params, ...this.getInitialParams(), [strategy.pageParam || 'page']: (strategy.startPage ?? 1) + pageNumber },
+        };
+      }
+      case 'cursor': {
+        const cursor = this.getPath(response.body, strategy.nextCursorPath);
+        if (cursor === undefined || cursor === null || cursor === '') return null;
+        return {
+          endpoint: this.endpoint,
+          params: { ...params, ...this.getInitialParams(), [strategy.cursorParam || 'cursor']: cursor },
+        };
+      }
+      case 'link': {
+        const nextUrl = Paginator.parseLinkHeader(response.headers['link'])['next'];
+        return nextUrl ? { endpoint: nextUrl } : null;
+      }
+      case 'shopify': {
+        const nextUrl = Paginator.parseLinkHeader(response.headers['link'])['next'];
+        const pageInfo = nextUrl ? new URL(nextUrl, 'http://localhost').searchParams.get('page_info') : null;
+        if (!pageInfo) return null;
+        // Shopify rejects filter params alongside page_info
+        return { endpoint: this.endpoint, params: { ...this.getInitialParams(), page_info: pageInfo } };
+      }
+    }
+  }
+
+  /**
+   * Parse a Link header into a rel -> URL map
+   */
+  static parseLinkHeader(header?: string): Record<string, string> {
+    const links: Record<string, string> = {};
+    if (!header) return links;
+
+    header.split(/,(?=\s*<)/).forEach(part => {
+      const match = part.match(/<([^>]+)>\s*;(.*)/);
+      if (!match) return;
+      const rel = match[2].match(/rel="?([^";]+)"?/i)?.[1];
+      rel?.split(/\s+/).forEach(name => {
+        links[name.toLowerCase()] = match[1];
+      });
+    });
+
+    return links;
+  }
+
+  private getItems(body: any): T[] {
+    const itemsPath = this.strategy.itemsPath;
+    if (itemsPath) {
+      const items = this.getPath(body, itemsPath);
+      return Array.isArray(items) ? items : [];
+    }
+
+    if (Array.isArray(body)) return body;
+    if (body && typeof body === 'object') {
+      const key = DEFAULT_ITEM_KEYS.find(name => Array.isArray(body[name]))
+        || Object.keys(body).find(name => Array.isArray(body[name]));
+      return key ? body[key] : [];
+    }
+    return [];
+  }
+
+  private getPath(value: any, path: string): any {
+    return path.split('.').reduce((current, key) => current?.[key], value);
+  }
+}
@@ -0,0 +1,152 @@
+/**
+ * Query parameter value: scalars, dates, arrays and nested objects
+ */
+export type QueryValue =
+  | string
+  | number
+  | boolean
+  | Date
+  | null
+  | undefined
+  | QueryValue[]
+  | { [key: string]: QueryValue };
+
+/**
+ * Query parameters
+ */
+export type QueryParams = Record<string, QueryValue>;
+
+/**
+ * Array serialisation style:
+ * - repeat: tag=a&tag=b
+ * - comma: tag=a,b
+ * - brackets: tag[]=a&tag[]=b
+ * - indices: tag[0]=a&tag[1]=b
+ */
+export type ArrayFormat = 'repeat' | 'comma' | 'brackets' | 'indices';
+
+/**
+ * Query string options
+ */
+export interface QueryStringOptions {
+  /** Array style (default: repeat) */
+  arrayFormat?: ArrayFormat;
+}
+
+/**
+ * Characters left readable in path segments (RFC 3986 sub-delims plus ':' and '@')
+ */
+const PATH_SAFE_ESCAPES = /%(3A|40|21|24|26|27|28|29|2A|2B|2C|3B|3D)/gi;
+
+/**
+ * Query String
+ * Serialises query parameters and builds request URLs for ApiClient and ApiHelpers
+ */
+export class QueryString {
+  /**
+   * Serialise parameters. Null and undefined values are skipped and nested
+   * objects use bracket keys (filter[price][min]=10).
+   * @param params - Query parameters
+   * @param options - Serialisation options
+   * @returns Query string without the leading '?'
+   */
+  static stringify(params: QueryParams, options: QueryStringOptions = {}): string {
+    const arrayFormat = options.arrayFormat || 'repeat';
+    const pairs: string[] = [];
+
+    Object.entries(params).forEach(([key, value]) => this.serialize(key, value, arrayFormat, pairs));
+    return pairs.join('&');
+  }
+
+  /**
+   * Append parameters to a URL, merging with any query string it already has
+   * and keeping the fragment last
+   */
+  static appendToUrl(url: string, params?: QueryParams, options: QueryStringOptions = {}): string {
+    const query = params ? this.stringify(params, options) : '';
+    if (!query) return url;
+
+    const hashIndex = url.indexOf('#');
+    const base = hashIndex === -1 ? url : url.substring(0, hashIndex);
+    const hash = hashIndex === -1 ? '' : url.substring(hashIndex);
+
+    if (!base.includes('?')) return `${base}?${query}${hash}`;
+    const separator = base.endsWith('?') || base.endsWith('&') ? '' : '&';
+    return `${base}${separator}${query}${hash}`;
+  }
+
+  /**
+   * Percent-encode each path segment of a path or absolute URL.
+   * Already encoded segments are left as they are, and the query and fragment are untouched.
+   */
+  static encodePath(url: string): string {
+    const origin = url.match(/^[a-z][a-z0-9+.-]*:\/\/[^/?#]*/i)?.[0] || '';
+    const rest = url.substring(origin.length);
+    const suffixIndex = rest.search(/[?#]/);
+    const pathname = suffixIndex === -1 ? rest : rest.substring(0, suffixIndex);
+    const suffix = suffixIndex === -1 ? '' : rest.substring(suffixIndex);
+
+    const encoded = pathname
+      .split('/')
+      .map(segment => {
+        let decoded = segment;
+        try {
+          decoded = decodeURIComponent(segment);
+        } catch {
+          // Not valid percent-encoding: encode the raw segment
+        }
+        return encodeURIComponent(decoded).replace(PATH_SAFE_ESCAPES, match => decodeURIComponent(match));
+      })
+      .join('/');
+
+    return `${origin}${encoded}${suffix}`;
+  }
+
+  private static serialize(key: string, value: QueryValue, arrayFormat: ArrayFormat, pairs: string[]): void {
+    if (value === null || value === undefined) return;
+
+    if (Array.isArray(value)) {
+      const items = value.filter(item => item !== null && item !== undefined);
+
+      if (arrayFormat === 'comma' && items.every(item => !this.isNested(item))) {
+        if (items.length > 0) {
+          pairs.push(`${this.encodeKey(key)}=${items.map(item => encodeURIComponent(this.scalar(item))).join(',')}`);
+        }
+        return;
+      }
+
+      items.forEach((item, index) => {
+        // Nested items always need an index to keep their fields together
+        const itemKey = arrayFormat === 'indices' || this.isNested(item) ? `${key}[${index}]`
+          : arrayFormat === 'brackets' ? `${key}[]`
+            : key;
+        this.serialize(itemKey, item, arrayFormat, pairs);
+      });
+      return;
+    }
+
+    if (this.isNested(value)) {
+      Object.entries(value as Record<string, QueryValue>).forEach(([childKey, child]) =>
+        this.serialize(`${key}[${childKey}]`, child, arrayFormat, pairs)
+      );
+      return;
+    }
+
+    pairs.push(`${this.encodeKey(key)}=${encodeURIComponent(this.scalar(value))}`);
+  }
+
+  private static isNested(value: QueryValue): boolean {
+    return value !== null && typeof value === 'object' && !(value instanceof Date);
+  }
+
+  private static scalar(value: QueryValue): string {
+    return value instanceof Date ? value.toISOString() : String(value);
+  }
+
+  /**
+   * encodeURIComponent, keeping brackets readable in keys like filter[price]
+   */
+  private static encodeKey(key: string): string {
+    return encodeURIComponent(key).replace(/%5B/g, '[').replace(/%5D/g, ']');
+  }
+}
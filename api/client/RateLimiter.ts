@@ -0,0 +1,161 @@
+import { envConfig } from '../../config/env';
+import type { HostRateLimit } from '../../config/environments';
+import { Logger } from '../../utils/Logger';
+
+/**
+ * Granted permit; release it once the response has been read
+ */
+export interface RateLimitPermit {
+  /** Time spent queued for a token and a concurrency slot (ms) */
+  waitMs: number;
+  release: () => void;
+}
+
+/**
+ * Limiter statistics for one host
+ */
+export interface RateLimiterStats {
+  host: string;
+  requests: number;
+  delayedRequests: number;
+  totalWaitMs: number;
+  maxWaitMs: number;
+  active: number;
+  queued: number;
+}
+
+/**
+ * Rate Limiter
+ *
+ * Token bucket (requestsPerSecond, burst) plus a concurrency cap for one host.
+ * Limiters are shared by every ApiClient in the worker process.
+ */
+export class RateLimiter {
+  private static readonly limiters = new Map<string, RateLimiter>();
+
+  private readonly host: string;
+  private readonly ratePerMs: number;
+  private readonly burst: number;
+  private readonly maxConcurrent: number;
+  private tokens: number;
+  private lastRefill: number;
+  private active = 0;
+  private readonly waiting: Array<() => void> = [];
+  private readonly stats = { requests: 0, delayedRequests: 0, totalWaitMs: 0, maxWaitMs: 0 };
+
+  constructor(host: string, limit: HostRateLimit) {
+    this.host = host;
+    this.ratePerMs = (limit.requestsPerSecond ?? Infinity) / 1000;
+    this.burst = limit.burst ?? Math.max(1, Math.ceil(limit.requestsPerSecond ?? 1));
+    this.maxConcurrent = limit.maxConcurrent ?? Infinity;
+    this.tokens = this.burst;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Shared limiter for the host of a URL, or null when no limit is configured
+   * @param url - Request URL
+   * @param limits - Limits per host (default: envConfig.rateLimits); keys match the host and its subdomains
+   */
+  static forUrl(url: string, limits: Record<string, HostRateLimit> = envConfig.rateLimits || {}): RateLimiter | null {
+    let host: string;
+    try {
+      host = new URL(url).host.toLowerCase();
+    } catch {
+      return null;
+    }
+
+    const existing = this.limiters.get(host);
+    if (existing) return existing;
+
+    const key = Object.keys(limits)
+      .filter(rule => rule === '*' || host === rule.toLowerCase() || host.endsWith(`.${rule.toLowerCase()}`))
+      .sort((a, b) => (a === '*' ? 1 : b === '*' ? -1 : b.length - a.length))[0];
+    if (!key) return null;
+
+    const limiter = new RateLimiter(host, limits[key]);
+    this.limiters.set(host, limiter);
+    return limiter;
+  }
+
+  /**
+   * Statistics for every host limited in this worker
+   */
+  static getStats(): RateLimiterStats[] {
+    return [...this.limiters.values()].map(limiter => limiter.getStats());
+  }
+
+  /**
+   * Forget all limiters (mainly for tests of the limiter itself)
+   */
+  static reset(): void {
+    this.limiters.clear();
+  }
+
+  /**
+   * Wait for a concurrency slot and a token, in request order
+   */
+  async acquire(): Promise<RateLimitPermit> {
+    const start = Date.now();
+
+    await this.acquireSlot();
+    const tokenWait = this.reserveToken();
+    if (tokenWait > 0) {
+      await new Promise(resolve => setTimeout(resolve, tokenWait));
+    }
+
+    const waitMs = Date.now() - start;
+    this.stats.requests++;
+    this.stats.totalWaitMs += waitMs;
+    this.stats.maxWaitMs = Math.max(this.stats.maxWaitMs, waitMs);
+    if (waitMs > 0) {
+      this.stats.delayedRequests++;
+      Logger.debug(`Rate limiter delayed request to ${this.host} by ${waitMs}ms`);
+    }
+
+    let released = false;
+    return {
+      waitMs,
+      release: () => {
+        if (released) return;
+        released = true;
+        this.releaseSlot();
+      },
+    };
+  }
+
+  getStats(): RateLimiterStats {
+    return { host: this.host, ...this.stats, active: this.active, queued: this.waiting.length };
+  }
+
+  /**
+   * Take a token, going into debt when the bucket is empty; the debt is the wait
+   */
+  private reserveToken(): number {
+    if (this.ratePerMs === Infinity) return 0;
+
+    const now = Date.now();
+    this.tokens = Math.min(this.burst, this.tokens + (now - this.lastRefill) * this.ratePerMs);
+    this.lastRefill = now;
+    this.tokens -= 1;
+
+    return this.tokens >= 0 ? 0 : Math.ceil(-this.tokens / this.ratePerMs);
+  }
+
+  private acquireSlot(): Promise<void> {
+    if (this.active < this.maxConcurrent) {
+      this.active++;
+      return Promise.resolve();
+    }
+    return new Promise(resolve => this.waiting.push(() => {
+      this.active++;
+      resolve();
+    }));
+  }
+
+  private releaseSlot(): void {
+    this.active--;
+    const next = this.waiting.shift();
+    if (next) next();
+  }
+}
@@ -0,0 +1,172 @@
+import type { ApiResponse } from './ApiClient';
+import type { ApiRequest } from './ApiMiddleware';
+import { ApiStatusError } from './ApiStatusError';
+import { Env } from '../../config/env';
+import { Logger } from '../../utils/Logger';
+
+/**
+ * Retry policy for ApiClient requests
+ */
+export interface RetryPolicy {
+  /** Retries after the first attempt (default: API_MAX_RETRIES or 2) */
+  maxRetries?: number;
+  /** Response statuses that are retried */
+  statuses?: number[];
+  /** Network error codes that are retried (matched against the error message) */
+  networkErrors?: string[];
+  /** Base delay before the first retry (ms) */
+  delay?: number;
+  backoff?: 'linear' | 'exponential';
+  /** Upper bound for a single delay (ms) */
+  maxDelay?: number;
+  /** Random extra delay as a fraction of the computed delay (0 disables jitter) */
+  jitter?: number;
+  /** Wait for the Retry-After header on 429/503 responses */
+  respectRetryAfter?: boolean;
+  /** Longest Retry-After wait that is honoured (ms) */
+  maxRetryAfter?: number;
+  /** Methods retried without an idempotency key */
+  idempotentMethods?: string[];
+}
+
+/**
+ * One failed attempt that was retried
+ */
+export interface RetryAttempt {
+  attempt: number;
+  status?: number;
+  error?: string;
+  /** Delay before the next attempt (ms) */
+  delay: number;
+}
+
+/**
+ * Default retry policy
+ */
+export const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  maxRetries: Env.getNumber('API_MAX_RETRIES', 2),
+  statuses: [408, 429, 500, 502, 503, 504],
+  networkErrors: ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN', 'ENETUNREACH', 'socket hang up'],
+  delay: 500,
+  backoff: 'exponential',
+  maxDelay: 10000,
+  jitter: 0.2,
+  respectRetryAfter: true,
+  maxRetryAfter: 60000,
+  idempotentMethods: ['GET', 'PUT', 'DELETE'],
+};
+
+/**
+ * Header that marks a non-idempotent request as safe to retry
+ */
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+/**
+ * Api Retry
+ * Runs a request under a retry policy and records every retried attempt
+ */
+export class ApiRetry {
+  /**
+   * Send a request, retrying per policy
+   * @param request - Outgoing request
+   * @param send - Sends one attempt
+   * @param policy - Retry policy (merged over DEFAULT_RETRY_POLICY)
+   * @returns Final response with `retries` listing the retried attempts
+   */
+  static async execute<T>(
+    request: ApiRequest,
+    send: (request: ApiRequest) => Promise<ApiResponse<T>>,
+    policy: RetryPolicy = {}
+  ): Promise<ApiResponse<T>> {
+    const config = { ...DEFAULT_RETRY_POLICY, ...policy };
+    const retries: RetryAttempt[] = [];
+    const canRetry = config.maxRetries > 0 && this.isRetryable(request, config);
+
+    for (let attempt = 1; ; attempt++) {
+      const isLastAttempt = !canRetry || attempt > config.maxRetries;
+      let failure: { status?: number; error?: string; retryAfter?: number };
+
+      try {
+        // Earlier attempts must return failing statuses instead of throwing so they can be retried
+        const response = await send(isLastAttempt ? request : { ...request, failOnStatusCode: false });
+        if (isLastAttempt || !config.statuses.includes(response.status)) {
+          // Not retried, so the request's own failOnStatusCode applies
+          ApiStatusError.throwIfFailed(request, response.status, response.statusText);
+          return retries.length > 0 ? { ...response, retries } : response;
+        }
+        failure = {
+          status: response.status,
+          retryAfter: config.respectRetryAfter ? this.parseRetryAfter(response.headers['retry-after']) : undefined,
+        };
+      } catch (error) {
+        const message = (error as Error).message || String(error);
+        if (isLastAttempt || !this.isNetworkError(message, config.networkErrors)) {
+          if (retries.length > 0) {
+            Logger.error(`${request.method} ${request.endpoint} failed after ${retries.length} retr${retries.length === 1 ? 'y' : 'ies'}`);
+          }
+          throw error;
+        }
+        failure = { error: message.split('\n')[0] };
+      }
+
+      const delay = failure.retryAfter !== undefined
+        ? Math.min(failure.retryAfter, config.maxRetryAfter)
+        : this.getDelay(attempt, config);
+      retries.push({
+        attempt,
+        ...(failure.status !== undefined ? { status: failure.status } : { error: failure.error }),
+        delay,
+      });
+
+      Logger.warn(
+        `Retry ${attempt}/${config.maxRetries}: ${request.method} ${request.endpoint} ` +
+        `${failure.status !== undefined ? `returned ${failure.status}` : `failed: ${failure.error}`}, retrying in ${delay}ms`
+      );
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+
+  /**
+   * Idempotent methods are always retryable; others only with an idempotency key
+   */
+  static isRetryable(request: ApiRequest, policy: Required<RetryPolicy>): boolean {
+    if (policy.idempotentMethods.map(method => method.toUpperCase()).includes(request.method)) {
+      return true;
+    }
+    return Object.keys(request.headers).some(header => header.toLowerCase() === IDEMPOTENCY_KEY_HEADER.toLowerCase());
+  }
+
+  /**
+   * Backoff delay for an attempt, with jitter and capped at maxDelay
+   */
+  private static getDelay(attempt: number, policy: Required<RetryPolicy>): number {
+    const base = policy.backoff === 'linear'
+      ? policy.delay * attempt
+      : policy.delay * Math.pow(2, attempt - 1);
+    const jitter = base * policy.jitter * Math.random();
+    return Math.round(Math.min(base + jitter, policy.maxDelay));
+  }
+
+  /**
+   * Retry-After as milliseconds (delta-seconds or HTTP date)
+   */
+  private static parseRetryAfter(value?: string): number | undefined {
+    if (!value) return undefined;
+
+    const seconds = Number(value);
+    if (!isNaN(seconds)) return Math.max(seconds * 1000, 0);
+
+    const date = Date.parse(value);
+    return isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+  }
+
+  /**
+   * Playwright reports timeouts as "Timeout <n>ms exceeded", everything else by error code
+   */
+  private static isNetworkError(message: string, codes: string[]): boolean {
+    if (codes.includes('ETIMEDOUT') && /Timeout \d+ms exceeded/i.test(message)) {
+      return true;
+    }
+    return codes.some(code => message.includes(code));
+  }
+}
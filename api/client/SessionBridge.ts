@@ -0,0 +1,92 @@
+import { request, BrowserContext } from '@playwright/test';
+import { ApiClient } from './ApiClient';
+import { envConfig } from '../../config/env';
+
+/**
+ * Options for copying an API session into a browser context
+ */
+export interface SessionTransferOptions {
+  /** Only copy cookies whose name matches (default: every cookie) */
+  cookieFilter?: RegExp;
+  /** Extra localStorage entries for the client's base URL origin (e.g. a token the storefront reads) */
+  localStorage?: Record<string, string>;
+}
+
+/**
+ * Session Bridge
+ *
+ * Moves authentication between ApiClient and browser contexts through Playwright storageState:
+ * log in via API and open account pages signed in, or log in through the UI and keep
+ * calling cart and account endpoints with the same session.
+ */
+export class SessionBridge {
+  /**
+   * ApiClient on a browser context's request context. It shares the live cookie jar,
+   * so a UI login (e.g. LoginPage.login) applies to its requests and cookies it
+   * receives apply to the browser.
+   * @param context - Browser context (page.context())
+   * @param baseUrl - Base URL for requests (default: envConfig.baseUrl)
+   */
+  static fromBrowser(context: BrowserContext, baseUrl: string = envConfig.baseUrl): ApiClient {
+    return new ApiClient(context.request, baseUrl);
+  }
+
+  /**
+   * Copy an ApiClient's cookies and localStorage into a browser context,
+   * e.g. after logging in through the API
+   * @param client - Client whose session is copied
+   * @param context - Browser context (page.context())
+   * @param options - Cookie filter and extra localStorage entries
+   * @returns Number of cookies copied
+   */
+  static async toBrowser(client: ApiClient, context: BrowserContext, options: SessionTransferOptions = {}): Promise<number> {
+    const state = await client.getRequestContext().storageState();
+    const cookies = options.cookieFilter
+      ? state.cookies.filter(cookie => options.cookieFilter!.test(cookie.name))
+      : state.cookies;
+
+    if (cookies.length > 0) {
+      await context.addCookies(cookies);
+    }
+
+    const origins = state.origins.map(({ origin, localStorage }) => ({
+      origin,
+      entries: Object.fromEntries(localStorage.map(({ name, value }) => [name, value])),
+    }));
+    if (options.localStorage) {
+      const origin = new URL(client.getBaseUrl()).origin;
+      const existing = origins.find(entry => entry.origin === origin);
+      if (existing) {
+        Object.assign(existing.entries, options.localStorage);
+      } else {
+        origins.push({ origin, entries: { ...options.localStorage } });
+      }
+    }
+
+    const withEntries = origins.filter(entry => Object.keys(entry.entries).length > 0);
+    if (withEntries.length > 0) {
+      // localStorage can only be written from a page of the same origin
+      await context.addInitScript((storage: Array<{ origin: string; entries: Record<string, string> }>) => {
+        // @ts-ignore - window is available in browser context
+        const match = storage.find(entry => entry.origin === window.location.origin);
+        if (!match) return;
+        // @ts-ignore
+        Object.entries(match.entries).forEach(([name, value]) => window.localStorage.setItem(name, value));
+      }, withEntries);
+    }
+
+    return cookies.length;
+  }
+
+  /**
+   * Copy a browser context's cookies and localStorage into a new ApiClient with its own
+   * request context (a snapshot: later changes are not shared). Dispose it with
+   * client.getRequestContext().dispose().
+   * @param context - Browser context (page.context())
+   * @param baseUrl - Base URL for requests (default: envConfig.baseUrl)
+   */
+  static async snapshotFromBrowser(context: BrowserContext, baseUrl: string = envConfig.baseUrl): Promise<ApiClient> {
+    const requestContext = await request.newContext({ storageState: await context.storageState() });
+    return new ApiClient(requestContext, baseUrl);
+  }
+}
@@ -0,0 +1,314 @@
+import type { BrowserContext, Page } from '@playwright/test';
+import { ApiClient, ApiRequestOptions, ApiResponse } from './ApiClient';
+import { Endpoints } from '../endpoints/Endpoints';
+import { envConfig } from '../../config/env';
+
+/**
+ * Product variant as returned by /products/{handle}.js (prices in cents)
+ */
+export interface ShopifyVariant {
+  id: number;
+  title: string;
+  price: number;
+  compare_at_price: number | null;
+  available: boolean;
+  sku: string | null;
+  option1: string | null;
+  option2: string | null;
+  option3: string | null;
+  options: string[];
+  requires_shipping: boolean;
+  featured_image?: { id: number; src: string; alt: string | null } | null;
+  [key: string]: any;
+}
+
+/**
+ * Product as returned by /products/{handle}.js (prices in cents)
+ */
+export interface ShopifyProduct {
+  id: number;
+  title: string;
+  handle: string;
+  description: string;
+  vendor: string;
+  type: string;
+  tags: string[];
+  price: number;
+  price_min: number;
+  price_max: number;
+  available: boolean;
+  variants: ShopifyVariant[];
+  images: string[];
+  featured_image: string | null;
+  options: Array<{ name: string; position: number; values: string[] }>;
+  url: string;
+  [key: string]: any;
+}
+
+/**
+ * Product as returned by /collections/{handle}/products.json (prices are decimal strings)
+ */
+export interface ShopifyCollectionProduct {
+  id: number;
+  title: string;
+  handle: string;
+  body_html: string;
+  vendor: string;
+  product_type: string;
+  tags: string[];
+  variants: Array<{
+    id: number;
+    title: string;
+    price: string;
+    compare_at_price: string | null;
+    available: boolean;
+    sku: string | null;
+    [key: string]: any;
+  }>;
+  images: Array<{ id: number; src: string; width: number; height: number; [key: string]: any }>;
+  [key: string]: any;
+}
+
+/**
+ * Cart line item (prices in cents)
+ */
+export interface ShopifyLineItem {
+  id: number;
+  key: string;
+  quantity: number;
+  variant_id: number;
+  product_id: number;
+  title: string;
+  product_title: string;
+  variant_title: string | null;
+  handle: string;
+  sku: string | null;
+  price: number;
+  line_price: number;
+  final_price: number;
+  final_line_price: number;
+  properties: Record<string, string> | null;
+  url: string;
+  image: string | null;
+  [key: string]: any;
+}
+
+/**
+ * Cart as returned by /cart.js (prices in cents)
+ */
+export interface ShopifyCart {
+  token: string;
+  note: string | null;
+  attributes: Record<string, string>;
+  currency: string;
+  item_count: number;
+  items: ShopifyLineItem[];
+  total_price: number;
+  total_discount: number;
+  original_total_price: number;
+  items_subtotal_price: number;
+  requires_shipping: boolean;
+  [key: string]: any;
+}
+
+/**
+ * Item for /cart/add.js
+ */
+export interface ShopifyCartItemInput {
+  /** Variant ID */
+  id: number | string;
+  quantity?: number;
+  properties?: Record<string, string>;
+  selling_plan?: number | string;
+}
+
+/**
+ * Search suggestion resources as returned by /search/suggest.json
+ */
+export interface ShopifySearchSuggestions {
+  resources: {
+    results: {
+      products?: Array<{ id: number; title: string; handle: string; url: string; price: string; available: boolean; [key: string]: any }>;
+      collections?: Array<{ id: number; title: string; handle: string; url: string; [key: string]: any }>;
+      pages?: Array<{ id: number; title: string; handle: string; url: string; [key: string]: any }>;
+      articles?: Array<{ id: number; title: string; handle: string; url: string; [key: string]: any }>;
+      queries?: Array<{ text: string; styled_text: string; url: string }>;
+    };
+  };
+}
+
+/**
+ * Error returned by the Ajax API (e.g. 422 when a variant is sold out)
+ */
+export class ShopifyAjaxError extends Error {
+  readonly status: number;
+  readonly description?: string;
+  readonly response: ApiResponse;
+
+  constructor(endpoint: string, response: ApiResponse) {
+    const body = response.body && typeof response.body === 'object' ? response.body : {};
+    const detail = body.description || body.message || response.statusText;
+    super(`Shopify ${endpoint} failed with ${response.status}: ${detail}`);
+    this.name = 'ShopifyAjaxError';
+    this.status = response.status;
+    this.description = body.description;
+    this.response = response;
+  }
+}
+
+/**
+ * Cookies that identify the Ajax cart
+ */
+const CART_COOKIE_PATTERN = /^cart(_|$)/;
+
+/**
+ * Shopify Storefront Client
+ *
+ * Typed client for the storefront Ajax cart, product, collection and search endpoints.
+ * Build it from page.request (forPage) to share the cart cookie with the browser automatically.
+ */
+export class ShopifyStorefrontClient {
+  private readonly client: ApiClient;
+
+  constructor(client: ApiClient) {
+    this.client = client;
+  }
+
+  /**
+   * Storefront client sharing cookies (and therefore the cart) with a page's browser context
+   */
+  static forPage(page: Page, baseUrl: string = envConfig.baseUrl): ShopifyStorefrontClient {
+    return new ShopifyStorefrontClient(new ApiClient(page.request, baseUrl));
+  }
+
+  /**
+   * Get the current cart
+   */
+  async getCart(): Promise<ShopifyCart> {
+    return this.send<ShopifyCart>('GET', Endpoints.SHOPIFY.CART);
+  }
+
+  /**
+   * Add one variant to the cart
+   * @returns The added line item
+   */
+  async addItem(variantId: number | string, quantity: number = 1, properties?: Record<string, string>): Promise<ShopifyLineItem> {
+    const { items } = await this.addItems([{ id: variantId, quantity, properties }]);
+    return items[0];
+  }
+
+  /**
+   * Add several variants to the cart
+   * @returns The added line items
+   */
+  async addItems(items: ShopifyCartItemInput[]): Promise<{ items: ShopifyLineItem[] }> {
+    return this.send('POST', Endpoints.SHOPIFY.CART_ADD, { items });
+  }
+
+  /**
+   * Change the quantity or properties of one line (by line item key or 1-based line number)
+   */
+  async changeLine(line: string | number, quantity: number, properties?: Record<string, string>): Promise<ShopifyCart> {
+    const target = typeof line === 'string' ? { id: line } : { line };
+    return this.send<ShopifyCart>('POST', Endpoints.SHOPIFY.CART_CHANGE, { ...target, quantity, ...(properties ? { properties } : {}) });
+  }
+
+  /**
+   * Update quantities by variant ID, the cart note or cart attributes
+   */
+  async updateCart(update: {
+    updates?: Record<string, number>;
+    note?: string;
+    attributes?: Record<string, string>;
+  }): Promise<ShopifyCart> {
+    return this.send<ShopifyCart>('POST', Endpoints.SHOPIFY.CART_UPDATE, update);
+  }
+
+  /**
+   * Remove every item from the cart
+   */
+  async clearCart(): Promise<ShopifyCart> {
+    return this.send<ShopifyCart>('POST', Endpoints.SHOPIFY.CART_CLEAR);
+  }
+
+  /**
+   * Get a product by handle
+   */
+  async getProduct(handle: string): Promise<ShopifyProduct> {
+    return this.send<ShopifyProduct>('GET', Endpoints.SHOPIFY.PRODUCT(handle));
+  }
+
+  /**
+   * List the products of a collection
+   */
+  async getCollectionProducts(
+    handle: string,
+    options: { limit?: number; page?: number } = {}
+  ): Promise<ShopifyCollectionProduct[]> {
+    const { products } = await this.send<{ products: ShopifyCollectionProduct[] }>(
+      'GET',
+      Endpoints.SHOPIFY.COLLECTION_PRODUCTS(handle),
+      undefined,
+      { params: options }
+    );
+    return products;
+  }
+
+  /**
+   * Predictive search suggestions
+   * @param query - Search terms
+   * @param options - Resource types (default: product) and result limit
+   */
+  async searchSuggest(
+    query: string,
+    options: { types?: Array<'product' | 'collection' | 'page' | 'article' | 'query'>; limit?: number } = {}
+  ): Promise<ShopifySearchSuggestions> {
+    return this.send<ShopifySearchSuggestions>('GET', Endpoints.SHOPIFY.SEARCH_SUGGEST, undefined, {
+      params: {
+        q: query,
+        resources: { type: (options.types || ['product']).join(','), limit: options.limit },
+      },
+    });
+  }
+
+  /**
+   * Copy this client's cart cookies into a browser context so the UI sees the same cart
+   */
+  async shareCartWith(context: BrowserContext): Promise<void> {
+    const state = await this.client.getRequestContext().storageState();
+    const cartCookies = state.cookies.filter(cookie => CART_COOKIE_PATTERN.test(cookie.name));
+    if (cartCookies.length > 0) {
+      await context.addCookies(cartCookies);
+    }
+  }
+
+  /**
+   * Send this client's requests with the cart cookies of a browser context
+   */
+  async useBrowserCart(context: BrowserContext): Promise<void> {
+    const cookies = await context.cookies(this.client.getBaseUrl());
+    const cartCookies = cookies.filter(cookie => CART_COOKIE_PATTERN.test(cookie.name));
+    if (cartCookies.length > 0) {
+      this.client.setDefaultHeaders({ Cookie: cartCookies.map(cookie => `${cookie.name}=${cookie.value}`).join('; ') });
+    }
+  }
+
+  private async send<T>(
+    method: 'GET' | 'POST',
+    endpoint: string,
+    data?: any,
+    options: Omit<ApiRequestOptions, 'method' | 'data'> = {}
+  ): Promise<T> {
+    const response = await this.client.request<T>(endpoint, {
+      ...options,
+      method,
+      ...(data !== undefined ? { data } : {}),
+      failOnStatusCode: false,
+    });
+
+    if (response.status >= 400) {
+      throw new ShopifyAjaxError(endpoint, response);
+    }
+    return response.body;
+  }
+}
@@ -39,6 +39,18 @@ export const Endpoints = {
     CANCEL: (id: string) => `/api/orders/${id}/cancel`,
   },
 
+  // Shopify storefront Ajax API (relative to the shop domain)
+  SHOPIFY: {
+    CART: '/cart.js',
+    CART_ADD: '/cart/add.js',
+    CART_CHANGE: '/cart/change.js',
+    CART_UPDATE: '/cart/update.js',
+    CART_CLEAR: '/cart/clear.js',
+    PRODUCT: (handle: string) => `/products/${handle}.js`,
+    COLLECTION_PRODUCTS: (handle: string) => `/collections/${handle}/products.json`,
+    SEARCH_SUGGEST: '/search/suggest.json',
+  },
+
   // Health check
   HEALTH: {
     CHECK: '/api/health',
@@ -1,13 +1,59 @@
-import { test as baseTest, APIRequestContext } from '@playwright/test';
+import { test as baseTest, APIRequestContext, TestInfo } from '@playwright/test';
 import { ApiClient } from '../client/ApiClient';
+import { ApiMiddlewares } from '../client/ApiMiddleware';
+import { AuthSessionManager } from '../client/AuthSession';
+import { ShopifyStorefrontClient } from '../client/ShopifyStorefrontClient';
+import { SessionBridge } from '../client/SessionBridge';
+import { Cassette, CassetteMatchOptions } from '../client/Cassette';
+import { AuthApi } from '../resources/AuthApi';
+import { UsersApi } from '../resources/UsersApi';
+import { ProductsApi } from '../resources/ProductsApi';
+import { OrdersApi } from '../resources/OrdersApi';
+import { HealthApi } from '../resources/HealthApi';
 import { envConfig } from '../../config/env';
+import { ApiReproduction, RequestSnippet } from '../../utils/RequestSnippet';
+import { getMCPContext } from '../../mcp/MCPHooks';
 
 /**
  * API Test Fixtures
  */
 export interface ApiFixtures {
   apiRequest: APIRequestContext;
+  cassetteOptions: CassetteMatchOptions;
+  cassette: Cassette | null;
   apiClient: ApiClient;
+  apiRole: string;
+  authSession: AuthSessionManager;
+  authenticatedApiClient: ApiClient;
+  storefront: ShopifyStorefrontClient;
+  browserApiClient: ApiClient;
+  authApi: AuthApi;
+  usersApi: UsersApi;
+  productsApi: ProductsApi;
+  ordersApi: OrdersApi;
+  healthApi: HealthApi;
+}
+
+/**
+ * Record time a client spent waiting on the rate limiter as a test annotation
+ */
+function annotateRateLimitWait(testInfo: TestInfo, client: ApiClient, name: string): void {
+  const waitMs = client.getRateLimitWait();
+  if (waitMs > 0) {
+    testInfo.annotations.push({ type: 'rate-limit-wait', description: `${name}: ${waitMs}ms` });
+  }
+}
+
+/**
+ * Collect curl/fetch reproductions of a client's failed requests, adding each to the test's MCP context
+ */
+function collectReproductions(testInfo: TestInfo, client: ApiClient): ApiReproduction[] {
+  const reproductions: ApiReproduction[] = [];
+  client.use(ApiMiddlewares.reproduction(reproduction => {
+    reproductions.push(reproduction);
+    getMCPContext(testInfo)?.addApiReproduction(reproduction);
+  }));
+  return reproductions;
 }
 
 /**
@@ -21,12 +67,108 @@ export const apiTest = baseTest.extend<ApiFixtures>({
     await use(request);
   },
 
+  /**
+   * Cassette matching options - set per spec with test.use({ cassetteOptions: { ignoreBodyFields: ['**.nonce'] } })
+   */
+  cassetteOptions: [{}, { option: true }],
+
+  /**
+   * Cassette - records or replays this test's API client traffic (API_CASSETTE_MODE), null when off
+   */
+  cassette: async ({ cassetteOptions }, use, testInfo) => {
+    const cassette = Cassette.forTest(testInfo, cassetteOptions);
+    await use(cassette);
+    cassette?.save();
+  },
+
   /**
    * API Client - Pre-configured API client
    */
-  apiClient: async ({ apiRequest }, use) => {
+  apiClient: async ({ apiRequest, cassette }, use, testInfo) => {
     const client = new ApiClient(apiRequest, envConfig.apiBaseUrl);
+    client.setCassette(cassette);
+    const reproductions = collectReproductions(testInfo, client);
     await use(client);
+    annotateRateLimitWait(testInfo, client, 'apiClient');
+    await RequestSnippet.attach(testInfo, reproductions, 'apiClient-reproduction');
+  },
+
+  /**
+   * Role used by authenticatedApiClient (override with test.use({ apiRole: 'admin' }))
+   */
+  apiRole: ['customer', { option: true }],
+
+  /**
+   * Auth Session - Logs in per role and caches tokens for the worker
+   */
+  authSession: async ({ apiClient, cassette }, use) => {
+    const authSession = new AuthSessionManager(apiClient);
+    // Log in within every test so each cassette holds its own login exchange
+    if (cassette) authSession.clear();
+    await use(authSession);
+  },
+
+  /**
+   * Authenticated API Client - Sends requests as apiRole, refreshing the token on 401
+   */
+  authenticatedApiClient: async ({ apiRequest, apiRole, authSession, cassette }, use, testInfo) => {
+    const client = new ApiClient(apiRequest, envConfig.apiBaseUrl);
+    client.setCassette(cassette);
+    // Outside the auth middleware, so a 401 fixed by a token refresh is not reported
+    const reproductions = collectReproductions(testInfo, client);
+    client.use(authSession.middleware(apiRole));
+    await use(client);
+    annotateRateLimitWait(testInfo, client, 'authenticatedApiClient');
+    await RequestSnippet.attach(testInfo, reproductions, 'authenticatedApiClient-reproduction');
+  },
+
+  /**
+   * Shopify Storefront - Ajax cart/product client for the shop domain (envConfig.baseUrl).
+   * In UI specs use ShopifyStorefrontClient.forPage(page) to share the cart with the browser.
+   */
+  storefront: async ({ apiRequest, cassette }, use, testInfo) => {
+    const client = new ApiClient(apiRequest, envConfig.baseUrl);
+    client.setCassette(cassette);
+    const reproductions = collectReproductions(testInfo, client);
+    await use(new ShopifyStorefrontClient(client));
+    annotateRateLimitWait(testInfo, client, 'storefront');
+    await RequestSnippet.attach(testInfo, reproductions, 'storefront-reproduction');
+  },
+
+  /**
+   * ApiClient sharing cookies with the page's browser context (envConfig.baseUrl), so a UI login
+   * carries over to cart and account calls. Use SessionBridge.toBrowser for the other direction.
+   */
+  browserApiClient: async ({ page }, use, testInfo) => {
+    const client = SessionBridge.fromBrowser(page.context());
+    const reproductions = collectReproductions(testInfo, client);
+    await use(client);
+    annotateRateLimitWait(testInfo, client, 'browserApiClient');
+    await RequestSnippet.attach(testInfo, reproductions, 'browserApiClient-reproduction');
+  },
+
+  /**
+   * Resource APIs - auth, products and health are public;
+   * users and orders are sent as apiRole through authenticatedApiClient
+   */
+  authApi: async ({ apiClient }, use) => {
+    await use(new AuthApi(apiClient));
+  },
+
+  usersApi: async ({ authenticatedApiClient }, use) => {
+    await use(new UsersApi(authenticatedApiClient));
+  },
+
+  productsApi: async ({ apiClient }, use) => {
+    await use(new ProductsApi(apiClient));
+  },
+
+  ordersApi: async ({ authenticatedApiClient }, use) => {
+    await use(new OrdersApi(authenticatedApiClient));
+  },
+
+  healthApi: async ({ apiClient }, use) => {
+    await use(new HealthApi(apiClient));
   },
 });
 
@@ -1,5 +1,17 @@
 import { expect } from '@playwright/test';
 import { ApiResponse } from '../client/ApiClient';
+import { JsonSchema, JsonSchemaValidateOptions, JsonSchemaValidator } from './JsonSchemaValidator';
+
+/**
+ * Response time thresholds for a batch of responses (milliseconds)
+ */
+export interface ResponseTimeThresholds {
+  p50?: number;
+  p90?: number;
+  p95?: number;
+  p99?: number;
+  max?: number;
+}
 
 /**
  * API Assertion Helpers
@@ -99,12 +111,30 @@ export class ApiAssertions {
   }
 
   /**
-   * Assert response time is within limit
+   * Assert response time is within limit.
+   * For a batch of responses a number applies to every response, and
+   * percentile thresholds ({ p95: 500, max: 2000 }) are checked with the nearest-rank method.
    */
-  static expectResponseTime(response: ApiResponse, maxTimeMs: number): void {
-    // Note: Playwright doesn't expose response time directly
-    // This would need to be measured separately or use a custom wrapper
-    // For now, this is a placeholder for the pattern
+  static expectResponseTime(
+    responses: ApiResponse | ApiResponse[],
+    limit: number | ResponseTimeThresholds
+  ): void {
+    const batch = Array.isArray(responses) ? responses : [responses];
+    expect(batch.length, 'No responses to check response time for').toBeGreaterThan(0);
+
+    const durations = batch.map(response => response.timing.duration).sort((a, b) => a - b);
+    const thresholds: ResponseTimeThresholds = typeof limit === 'number' ? { max: limit } : limit;
+
+    for (const [name, maxTimeMs] of Object.entries(thresholds) as Array<[keyof ResponseTimeThresholds, number]>) {
+      const actual = name === 'max'
+        ? durations[durations.length - 1]
+        : this.percentile(durations, Number(name.substring(1)));
+
+      expect(
+        actual,
+        `Response time ${name} ${actual}ms exceeds ${maxTimeMs}ms (${durations.length} response(s))`
+      ).toBeLessThanOrEqual(maxTimeMs);
+    }
   }
 
   /**
@@ -120,6 +150,19 @@ export class ApiAssertions {
     }
   }
 
+  /**
+   * Assert response body matches a JSON Schema draft 2020-12 (e.g. one inferred into api/schemas/).
+   * The failure message lists every violation with its JSON pointer.
+   * @param options - Schemas referenced by $ref and custom formats
+   */
+  static expectJsonSchema(response: ApiResponse, schema: JsonSchema, options?: JsonSchemaValidateOptions): void {
+    const violations = JsonSchemaValidator.validate(response.body, schema, options);
+    expect(
+      violations,
+      `Response body does not match schema${schema.title ? ` "${schema.title}"` : ''}:\n${JsonSchemaValidator.formatViolations(violations)}`
+    ).toHaveLength(0);
+  }
+
   /**
    * Assert response body is array
    */
@@ -145,6 +188,14 @@ export class ApiAssertions {
     expect(Array.isArray(response.body), 'Response body is an array, not an object').toBe(false);
   }
 
+  /**
+   * Nearest-rank percentile of sorted values
+   */
+  private static percentile(sortedValues: number[], percentile: number): number {
+    const rank = Math.ceil((percentile / 100) * sortedValues.length);
+    return sortedValues[Math.max(rank, 1) - 1];
+  }
+
   /**
    * Get nested field value from object using dot notation
    */
@@ -1,5 +1,7 @@
-import { ApiClient } from '../client/ApiClient';
+import { ApiClient, ApiResponse } from '../client/ApiClient';
+import { QueryParams, QueryString, QueryStringOptions } from '../client/QueryString';
 import { RetryHelper } from '../../utils/RetryHelper';
+import { diffValues } from '../../utils/ApiDrift';
 
 /**
  * API Helper Utilities
@@ -40,7 +42,8 @@ export class ApiHelpers {
   }
 
   /**
-   * Retry API request with exponential backoff
+   * Retry API request with exponential backoff.
+   * ApiClient requests are retried by their `retry` policy; use this for other request functions.
    */
   static async retryRequest<T>(
     requestFn: () => Promise<T>,
@@ -99,15 +102,10 @@ export class ApiHelpers {
   }
 
   /**
-   * Build query string from object
+   * Build query string from object (same serialisation as ApiClient params)
    */
-  static buildQueryString(params: Record<string, string | number | boolean>): string {
-    return new URLSearchParams(
-      Object.entries(params).reduce((acc, [key, value]) => {
-        acc[key] = String(value);
-        return acc;
-      }, {} as Record<string, string>)
-    ).toString();
+  static buildQueryString(params: QueryParams, options: QueryStringOptions = {}): string {
+    return QueryString.stringify(params, options);
   }
 
   /**
@@ -143,10 +141,11 @@ export class ApiHelpers {
     const differences: string[] = [];
     
     if (!fieldsToCompare) {
-      // Compare entire responses
-      if (JSON.stringify(response1) !== JSON.stringify(response2)) {
-        differences.push('Response bodies differ');
-      }
+      // Compare entire responses, reporting each differing path. ApiResponses are compared by
+      // status, headers and body, since timing and the raw Playwright response always differ.
+      differences.push(...(this.isApiResponse(response1) && this.isApiResponse(response2)
+        ? (['status', 'headers', 'body'] as const).flatMap(field => diffValues(response1[field], response2[field], `$.${field}`))
+        : diffValues(response1, response2)));
     } else {
       // Compare specific fields
       for (const field of fieldsToCompare) {
@@ -164,4 +163,8 @@ export class ApiHelpers {
       differences,
     };
   }
+
+  private static isApiResponse(value: any): value is ApiResponse {
+    return typeof value?.status === 'number' && 'headers' in value && 'body' in value;
+  }
 }
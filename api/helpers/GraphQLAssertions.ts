@@ -0,0 +1,89 @@
+import { expect } from '@playwright/test';
+import { GraphQLResult } from '../client/GraphQLClient';
+
+/**
+ * GraphQL Assertion Helpers
+ *
+ * Assertions for GraphQLClient results. Paths use dot notation with
+ * array indices, e.g. `products.edges.0.node.title`.
+ */
+export class GraphQLAssertions {
+  /**
+   * Assert the result has no errors (HTTP 200 responses can still carry errors)
+   */
+  static expectNoErrors(result: GraphQLResult): void {
+    const messages = result.errors.map(error => `- ${error.message}${error.path ? ` (at ${error.path.join('.')})` : ''}`);
+    expect(result.errors, `GraphQL ${result.operationName || 'operation'} returned errors:\n${messages.join('\n')}`).toHaveLength(0);
+  }
+
+  /**
+   * Assert the result has an error, optionally matching a message or extensions.code
+   */
+  static expectError(result: GraphQLResult, match?: { message?: string | RegExp; code?: string; path?: string }): void {
+    expect(result.errors.length, `Expected GraphQL ${result.operationName || 'operation'} to return errors`).toBeGreaterThan(0);
+    if (!match) return;
+
+    const found = result.errors.some(error => {
+      const messageMatches = match.message === undefined ||
+        (typeof match.message === 'string' ? error.message.includes(match.message) : match.message.test(error.message));
+      const codeMatches = match.code === undefined || error.extensions?.code === match.code;
+      const pathMatches = match.path === undefined || (error.path || []).join('.') === match.path;
+      return messageMatches && codeMatches && pathMatches;
+    });
+
+    expect(
+      found,
+      `No GraphQL error matching ${JSON.stringify({ ...match, message: match.message?.toString() })} in: ${result.errors.map(error => error.message).join('; ')}`
+    ).toBe(true);
+  }
+
+  /**
+   * Assert data exists at a path, optionally with an expected value
+   */
+  static expectData(result: GraphQLResult, dataPath: string, value?: any): void {
+    const actual = this.getPath(result.data, dataPath);
+    expect(actual, `GraphQL data at ${dataPath} not found`).toBeDefined();
+
+    if (value !== undefined) {
+      expect(actual, `GraphQL data at ${dataPath}`).toEqual(value);
+    }
+  }
+
+  /**
+   * Assert the type of the data at a path
+   */
+  static expectFieldType(
+    result: GraphQLResult,
+    dataPath: string,
+    type: 'string' | 'number' | 'boolean' | 'object' | 'array' | 'null'
+  ): void {
+    const actual = this.getPath(result.data, dataPath);
+    expect(actual, `GraphQL data at ${dataPath} not found`).toBeDefined();
+
+    const actualType = actual === null ? 'null' : Array.isArray(actual) ? 'array' : typeof actual;
+    expect(actualType, `GraphQL data at ${dataPath} expected type ${type}, got ${actualType}`).toBe(type);
+  }
+
+  /**
+   * Assert every item of a list (e.g. `products.nodes`) has a field of the given type
+   */
+  static expectEachFieldType(
+    result: GraphQLResult,
+    listPath: string,
+    field: string,
+    type: 'string' | 'number' | 'boolean' | 'object' | 'array' | 'null'
+  ): void {
+    const list = this.getPath(result.data, listPath);
+    expect(Array.isArray(list), `GraphQL data at ${listPath} is not a list`).toBe(true);
+
+    (list as any[]).forEach((item, index) => {
+      const value = this.getPath(item, field);
+      const actualType = value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+      expect(actualType, `${listPath}.${index}.${field} expected type ${type}, got ${actualType}`).toBe(type);
+    });
+  }
+
+  private static getPath(data: any, dataPath: string): any {
+    return dataPath.split('.').reduce((current, key) => current?.[key], data);
+  }
+}
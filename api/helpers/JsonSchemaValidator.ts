@@ -0,0 +1,656 @@
+/**
+ * JSON Schema type names
+ */
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+/**
+ * JSON Schema (draft 2020-12). Subschemas may also be `true` (anything) or `false` (nothing)
+ * where the specification allows it.
+ */
+export interface JsonSchema {
+  $schema?: string;
+  $id?: string;
+  $ref?: string;
+  $anchor?: string;
+  $defs?: Record<string, JsonSchema | boolean>;
+  /** Draft 7 name for $defs, still resolved by $ref */
+  definitions?: Record<string, JsonSchema | boolean>;
+  title?: string;
+  description?: string;
+
+  type?: JsonSchemaType | JsonSchemaType[];
+  enum?: any[];
+  const?: any;
+
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  multipleOf?: number;
+
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  /** email, date-time, date, time, uri, uri-reference, uuid, ipv4, ipv6, hostname (others are ignored) */
+  format?: string;
+
+  items?: JsonSchema;
+  prefixItems?: Array<JsonSchema | boolean>;
+  contains?: JsonSchema | boolean;
+  minContains?: number;
+  maxContains?: number;
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+
+  properties?: Record<string, JsonSchema>;
+  patternProperties?: Record<string, JsonSchema | boolean>;
+  additionalProperties?: JsonSchema | boolean;
+  propertyNames?: JsonSchema | boolean;
+  required?: string[];
+  minProperties?: number;
+  maxProperties?: number;
+  dependentRequired?: Record<string, string[]>;
+  dependentSchemas?: Record<string, JsonSchema | boolean>;
+
+  allOf?: Array<JsonSchema | boolean>;
+  anyOf?: JsonSchema[];
+  oneOf?: Array<JsonSchema | boolean>;
+  not?: JsonSchema | boolean;
+  if?: JsonSchema | boolean;
+  then?: JsonSchema | boolean;
+  else?: JsonSchema | boolean;
+
+  [keyword: string]: any;
+}
+
+/**
+ * Single schema violation
+ */
+export interface SchemaViolation {
+  /** JSON pointer to the offending value ('' is the document root) */
+  path: string;
+  keyword: string;
+  message: string;
+}
+
+/**
+ * Validation options
+ */
+export interface JsonSchemaValidateOptions {
+  /** Other schemas (with an $id) that $ref may point to */
+  schemas?: JsonSchema[];
+  /** Extra or overridden format checks */
+  formats?: Record<string, (value: string) => boolean>;
+}
+
+/**
+ * Own (not inherited) property check, so keys like "constructor" are not found on plain objects
+ */
+function hasOwn(object: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(object, key);
+}
+
+/**
+ * Check that a YYYY-MM-DD date names a real day (Date.parse rolls 2024-02-30 over to March 1)
+ */
+function isCalendarDate(date: string): boolean {
+  const [year, month, day] = date.split('-').map(Number);
+  const leapYear = year % 4 === 0 && (year % 100 !== 0 || year % 400 === 0);
+  const daysInMonth = [31, leapYear ? 29 : 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31][month - 1];
+  return daysInMonth !== undefined && day >= 1 && day <= daysInMonth;
+}
+
+/**
+ * Built-in format checks
+ */
+const FORMATS: Record<string, (value: string) => boolean> = {
+  'email': value => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value),
+  'date-time': value =>
+    /^\d{4}-\d{2}-\d{2}[Tt]\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})$/.test(value) &&
+    isCalendarDate(value.substring(0, 10)) && !isNaN(Date.parse(value)),
+  'date': value => /^\d{4}-\d{2}-\d{2}$/.test(value) && isCalendarDate(value),
+  'time': value => /^\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})$/.test(value),
+  'uri': value => /^[a-zA-Z][a-zA-Z0-9+.-]*:[^\s]*$/.test(value) && FORMATS['uri-reference'](value),
+  'uri-reference': value => {
+    try {
+      new URL(value, 'http://base.invalid/');
+      return !/\s/.test(value);
+    } catch {
+      return false;
+    }
+  },
+  'uuid': value => /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value),
+  'ipv4': value => /^(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)(\.(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)){3}$/.test(value),
+  'ipv6': value => {
+    try {
+      return value.includes(':') && new URL(`http://[${value}]/`).hostname.length > 0;
+    } catch {
+      return false;
+    }
+  },
+  'hostname': value =>
+    value.length <= 253 && /^[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(\.[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*$/.test(value),
+};
+
+/**
+ * Schemas reachable by $ref, plus state for one validate() call
+ */
+interface ValidationContext {
+  /** Schema resources by absolute URI (without fragment) */
+  resources: Map<string, JsonSchema | boolean>;
+  /** $anchor targets by absolute URI with fragment */
+  anchors: Map<string, JsonSchema | boolean>;
+  /** Base URI of every schema object */
+  baseUris: WeakMap<object, string>;
+  formats: Record<string, (value: string) => boolean>;
+  /** $refs being followed for an instance location, to stop cycles that never descend */
+  activeRefs: Set<string>;
+}
+
+/**
+ * Base URI of schemas without an $id
+ */
+const DEFAULT_BASE_URI = 'urn:json-schema:root';
+
+/**
+ * JSON Schema Validator
+ *
+ * Validates values against JSON Schema draft 2020-12 (everything except the
+ * unevaluated* keywords and dynamic references) and reports every violation
+ * with its JSON pointer path
+ */
+export class JsonSchemaValidator {
+  /**
+   * Validate a value against a schema
+   * @returns All violations (empty when valid)
+   */
+  static validate(value: any, schema: JsonSchema | boolean, options: JsonSchemaValidateOptions = {}): SchemaViolation[] {
+    const context: ValidationContext = {
+      resources: new Map(),
+      anchors: new Map(),
+      baseUris: new WeakMap(),
+      formats: { ...FORMATS, ...options.formats },
+      activeRefs: new Set(),
+    };
+    this.indexSchema(schema, DEFAULT_BASE_URI, context);
+    (options.schemas || []).forEach(resource => this.indexSchema(resource, DEFAULT_BASE_URI, context));
+
+    const violations: SchemaViolation[] = [];
+    this.validateNode(value, schema, '', violations, context);
+    return violations;
+  }
+
+  /**
+   * Format violations for assertion messages
+   */
+  static formatViolations(violations: SchemaViolation[]): string {
+    return violations.map(violation => `  ${violation.path || '/'}: ${violation.message}`).join('\n');
+  }
+
+  private static validateNode(
+    value: any,
+    schema: JsonSchema | boolean,
+    pointer: string,
+    violations: SchemaViolation[],
+    context: ValidationContext
+  ): void {
+    if (schema === true) return;
+    if (schema === false) {
+      violations.push({ path: pointer, keyword: 'false', message: 'no value is allowed here' });
+      return;
+    }
+
+    if (schema.$ref !== undefined) {
+      this.validateRef(value, schema, pointer, violations, context);
+    }
+
+    if (schema.type !== undefined) {
+      const allowed = Array.isArray(schema.type) ? schema.type : [schema.type];
+      if (!allowed.some(type => this.matchesType(value, type))) {
+        violations.push({
+          path: pointer,
+          keyword: 'type',
+          message: `expected ${allowed.join(' | ')}, got ${this.typeOf(value)}`,
+        });
+        return;
+      }
+    }
+
+    if (schema.enum !== undefined && !schema.enum.some(option => this.deepEqual(value, option))) {
+      violations.push({
+        path: pointer,
+        keyword: 'enum',
+        message: `${this.describe(value)} is not one of ${schema.enum.map(option => this.describe(option)).join(', ')}`,
+      });
+    }
+
+    if (hasOwn(schema, 'const') && !this.deepEqual(value, schema.const)) {
+      violations.push({ path: pointer, keyword: 'const', message: `expected ${this.describe(schema.const)}, got ${this.describe(value)}` });
+    }
+
+    this.validateCombinators(value, schema, pointer, violations, context);
+
+    switch (this.typeOf(value)) {
+      case 'number':
+        this.validateNumber(value, schema, pointer, violations);
+        break;
+      case 'string':
+        this.validateString(value, schema, pointer, violations, context);
+        break;
+      case 'array':
+        this.validateArray(value, schema, pointer, violations, context);
+        break;
+      case 'object':
+        this.validateObject(value, schema, pointer, violations, context);
+        break;
+    }
+  }
+
+  private static validateRef(
+    value: any,
+    schema: JsonSchema,
+    pointer: string,
+    violations: SchemaViolation[],
+    context: ValidationContext
+  ): void {
+    const base = context.baseUris.get(schema) || DEFAULT_BASE_URI;
+    const target = this.resolveUri(schema.$ref!, base);
+    const resolved = this.resolveRef(target, context);
+
+    if (resolved === undefined) {
+      violations.push({ path: pointer, keyword: '$ref', message: `cannot resolve $ref "${schema.$ref}"` });
+      return;
+    }
+
+    // A $ref that leads back to itself without descending into the value would never end
+    const key = `${pointer}|${target}`;
+    if (context.activeRefs.has(key)) return;
+
+    context.activeRefs.add(key);
+    try {
+      this.validateNode(value, resolved, pointer, violations, context);
+    } finally {
+      context.activeRefs.delete(key);
+    }
+  }
+
+  private static validateCombinators(
+    value: any,
+    schema: JsonSchema,
+    pointer: string,
+    violations: SchemaViolation[],
+    context: ValidationContext
+  ): void {
+    if (schema.allOf) {
+      schema.allOf.forEach(option => this.validateNode(value, option, pointer, violations, context));
+    }
+
+    if (schema.anyOf) {
+      const results = schema.anyOf.map(option => this.validateSubschema(value, option, pointer, context));
+      if (!results.some(result => result.length === 0)) {
+        violations.push({
+          path: pointer,
+          keyword: 'anyOf',
+          message: `does not match any allowed schema (${this.describeOptions(results)})`,
+        });
+      }
+    }
+
+    if (schema.oneOf) {
+      const results = schema.oneOf.map(option => this.validateSubschema(value, option, pointer, context));
+      const matching = results.map((result, index) => (result.length === 0 ? index + 1 : 0)).filter(Boolean);
+      if (matching.length === 0) {
+        violations.push({
+          path: pointer,
+          keyword: 'oneOf',
+          message: `does not match any allowed schema (${this.describeOptions(results)})`,
+        });
+      } else if (matching.length > 1) {
+        violations.push({
+          path: pointer,
+          keyword: 'oneOf',
+          message: `matches options ${matching.join(', ')}, expected exactly one`,
+        });
+      }
+    }
+
+    if (schema.not !== undefined && this.validateSubschema(value, schema.not, pointer, context).length === 0) {
+      violations.push({ path: pointer, keyword: 'not', message: 'must not match the "not" schema' });
+    }
+
+    if (schema.if !== undefined) {
+      const branch = this.validateSubschema(value, schema.if, pointer, context).length === 0 ? schema.then : schema.else;
+      if (branch !== undefined) {
+        this.validateNode(value, branch, pointer, violations, context);
+      }
+    }
+  }
+
+  private static validateNumber(value: number, schema: JsonSchema, pointer: string, violations: SchemaViolation[]): void {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      violations.push({ path: pointer, keyword: 'minimum', message: `${value} is less than ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      violations.push({ path: pointer, keyword: 'maximum', message: `${value} is greater than ${schema.maximum}` });
+    }
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+      violations.push({ path: pointer, keyword: 'exclusiveMinimum', message: `${value} must be greater than ${schema.exclusiveMinimum}` });
+    }
+    if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+      violations.push({ path: pointer, keyword: 'exclusiveMaximum', message: `${value} must be less than ${schema.exclusiveMaximum}` });
+    }
+    if (schema.multipleOf !== undefined) {
+      const quotient = value / schema.multipleOf;
+      if (Math.abs(quotient - Math.round(quotient)) > 1e-9) {
+        violations.push({ path: pointer, keyword: 'multipleOf', message: `${value} is not a multiple of ${schema.multipleOf}` });
+      }
+    }
+  }
+
+  private static validateString(
+    value: string,
+    schema: JsonSchema,
+    pointer: string,
+    violations: SchemaViolation[],
+    context: ValidationContext
+  ): void {
+    // Length counts code points, not UTF-16 units
+    const length = [...value].length;
+    if (schema.minLength !== undefined && length < schema.minLength) {
+      violations.push({ path: pointer, keyword: 'minLength', message: `length ${length} is shorter than ${schema.minLength}` });
+    }
+    if (schema.maxLength !== undefined && length > schema.maxLength) {
+      violations.push({ path: pointer, keyword: 'maxLength', message: `length ${length} is longer than ${schema.maxLength}` });
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern, 'u').test(value)) {
+      violations.push({ path: pointer, keyword: 'pattern', message: `${this.describe(value)} does not match /${schema.pattern}/` });
+    }
+    if (schema.format !== undefined) {
+      const check = context.formats[schema.format];
+      if (check && !check(value)) {
+        violations.push({ path: pointer, keyword: 'format', message: `${this.describe(value)} is not a valid ${schema.format}` });
+      }
+    }
+  }
+
+  private static validateArray(
+    value: any[],
+    schema: JsonSchema,
+    pointer: string,
+    violations: SchemaViolation[],
+    context: ValidationContext
+  ): void {
+    const prefixItems = schema.prefixItems || [];
+    prefixItems.forEach((itemSchema, index) => {
+      if (index < value.length) {
+        this.validateNode(value[index], itemSchema, this.childPointer(pointer, String(index)), violations, context);
+      }
+    });
+
+    if (schema.items !== undefined) {
+      value.slice(prefixItems.length).forEach((item, offset) => {
+        const index = prefixItems.length + offset;
+        this.validateNode(item, schema.items!, this.childPointer(pointer, String(index)), violations, context);
+      });
+    }
+
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      violations.push({ path: pointer, keyword: 'minItems', message: `has ${value.length} items, expected at least ${schema.minItems}` });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      violations.push({ path: pointer, keyword: 'maxItems', message: `has ${value.length} items, expected at most ${schema.maxItems}` });
+    }
+
+    if (schema.uniqueItems) {
+      value.forEach((item, index) => {
+        const first = value.findIndex(other => this.deepEqual(other, item));
+        if (first < index) {
+          violations.push({
+            path: this.childPointer(pointer, String(index)),
+            keyword: 'uniqueItems',
+            message: `duplicates item ${first}`,
+          });
+        }
+      });
+    }
+
+    if (schema.contains !== undefined) {
+      const matches = value.filter((item, index) =>
+        this.validateSubschema(item, schema.contains!, this.childPointer(pointer, String(index)), context).length === 0
+      ).length;
+      const minContains = schema.minContains ?? 1;
+
+      if (matches < minContains) {
+        violations.push({
+          path: pointer,
+          keyword: 'contains',
+          message: `${matches} item(s) match "contains", expected at least ${minContains}`,
+        });
+      }
+      if (schema.maxContains !== undefined && matches > schema.maxContains) {
+        violations.push({
+          path: pointer,
+          keyword: 'maxContains',
+          message: `${matches} item(s) match "contains", expected at most ${schema.maxContains}`,
+        });
+      }
+    }
+  }
+
+  private static validateObject(
+    value: Record<string, any>,
+    schema: JsonSchema,
+    pointer: string,
+    violations: SchemaViolation[],
+    context: ValidationContext
+  ): void {
+    const keys = Object.keys(value);
+
+    for (const key of schema.required || []) {
+      if (!hasOwn(value, key)) {
+        violations.push({
+          path: this.childPointer(pointer, key),
+          keyword: 'required',
+          message: `missing required property "${key}"`,
+        });
+      }
+    }
+
+    for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+      if (hasOwn(value, key)) {
+        this.validateNode(value[key], propertySchema, this.childPointer(pointer, key), violations, context);
+      }
+    }
+
+    const patterns = Object.entries(schema.patternProperties || {}).map(
+      ([pattern, patternSchema]) => [new RegExp(pattern, 'u'), patternSchema] as const
+    );
+    for (const key of keys) {
+      patterns
+        .filter(([regex]) => regex.test(key))
+        .forEach(([, patternSchema]) => this.validateNode(value[key], patternSchema, this.childPointer(pointer, key), violations, context));
+    }
+
+    if (schema.additionalProperties !== undefined) {
+      const additional = keys.filter(key =>
+        !(schema.properties && hasOwn(schema.properties, key)) && !patterns.some(([regex]) => regex.test(key))
+      );
+
+      additional.forEach(key => {
+        if (schema.additionalProperties === false) {
+          violations.push({
+            path: this.childPointer(pointer, key),
+            keyword: 'additionalProperties',
+            message: `unexpected property "${key}"`,
+          });
+        } else {
+          this.validateNode(value[key], schema.additionalProperties!, this.childPointer(pointer, key), violations, context);
+        }
+      });
+    }
+
+    if (schema.propertyNames !== undefined) {
+      keys.forEach(key => {
+        const nameViolations = this.validateSubschema(key, schema.propertyNames!, this.childPointer(pointer, key), context);
+        if (nameViolations.length > 0) {
+          violations.push({
+            path: this.childPointer(pointer, key),
+            keyword: 'propertyNames',
+            message: `invalid property name "${key}": ${nameViolations[0].message}`,
+          });
+        }
+      });
+    }
+
+    if (schema.minProperties !== undefined && keys.length < schema.minProperties) {
+      violations.push({ path: pointer, keyword: 'minProperties', message: `has ${keys.length} properties, expected at least ${schema.minProperties}` });
+    }
+    if (schema.maxProperties !== undefined && keys.length > schema.maxProperties) {
+      violations.push({ path: pointer, keyword: 'maxProperties', message: `has ${keys.length} properties, expected at most ${schema.maxProperties}` });
+    }
+
+    for (const [key, dependencies] of Object.entries(schema.dependentRequired || {})) {
+      if (!hasOwn(value, key)) continue;
+      dependencies.filter(dependency => !hasOwn(value, dependency)).forEach(dependency => {
+        violations.push({
+          path: this.childPointer(pointer, dependency),
+          keyword: 'dependentRequired',
+          message: `missing property "${dependency}" (required when "${key}" is present)`,
+        });
+      });
+    }
+
+    for (const [key, dependentSchema] of Object.entries(schema.dependentSchemas || {})) {
+      if (hasOwn(value, key)) {
+        this.validateNode(value, dependentSchema, pointer, violations, context);
+      }
+    }
+  }
+
+  /**
+   * Violations of a subschema, without adding them to the caller's list
+   */
+  private static validateSubschema(
+    value: any,
+    schema: JsonSchema | boolean,
+    pointer: string,
+    context: ValidationContext
+  ): SchemaViolation[] {
+    const violations: SchemaViolation[] = [];
+    this.validateNode(value, schema, pointer, violations, context);
+    return violations;
+  }
+
+  /**
+   * First violation of every failed anyOf/oneOf option
+   */
+  private static describeOptions(results: SchemaViolation[][]): string {
+    return results
+      .map((result, index) => `option ${index + 1}: ${result[0].path || '/'} ${result[0].message}`)
+      .join('; ');
+  }
+
+  /**
+   * Record the base URI of every schema object and register $id resources and $anchors
+   */
+  private static indexSchema(schema: JsonSchema | boolean, parentBase: string, context: ValidationContext): void {
+    if (typeof schema !== 'object' || schema === null || context.baseUris.has(schema)) return;
+
+    let base = parentBase;
+    if (typeof schema.$id === 'string') {
+      base = this.resolveUri(schema.$id, parentBase).split('#')[0];
+      context.resources.set(base, schema);
+    } else if (!context.resources.has(parentBase)) {
+      context.resources.set(parentBase, schema);
+    }
+    if (typeof schema.$anchor === 'string') {
+      context.anchors.set(`${base}#${schema.$anchor}`, schema);
+    }
+    context.baseUris.set(schema, base);
+
+    // Walk every keyword value that can hold subschemas
+    Object.entries(schema).forEach(([keyword, child]) => {
+      if (keyword === 'enum' || keyword === 'const') return;
+      if (Array.isArray(child)) {
+        child.forEach(item => this.indexSchema(item, base, context));
+      } else if (child !== null && typeof child === 'object') {
+        if (['properties', 'patternProperties', '$defs', 'definitions', 'dependentSchemas'].includes(keyword)) {
+          Object.values(child).forEach(item => this.indexSchema(item as JsonSchema, base, context));
+        } else {
+          this.indexSchema(child, base, context);
+        }
+      }
+    });
+  }
+
+  /**
+   * Find the schema an absolute reference points to (JSON pointer or $anchor fragment)
+   */
+  private static resolveRef(target: string, context: ValidationContext): JsonSchema | boolean | undefined {
+    const hashIndex = target.indexOf('#');
+    const resourceUri = hashIndex === -1 ? target : target.substring(0, hashIndex);
+    const fragment = hashIndex === -1 ? '' : decodeURIComponent(target.substring(hashIndex + 1));
+    const resource = context.resources.get(resourceUri);
+    if (resource === undefined) return undefined;
+
+    if (fragment === '') return resource;
+    if (!fragment.startsWith('/')) return context.anchors.get(`${resourceUri}#${fragment}`);
+
+    return fragment
+      .substring(1)
+      .split('/')
+      .map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'))
+      .reduce<any>((current, token) => (current !== null && typeof current === 'object' && hasOwn(current, token) ? current[token] : undefined), resource);
+  }
+
+  /**
+   * Resolve a (possibly relative) URI reference against a base URI
+   */
+  private static resolveUri(reference: string, base: string): string {
+    if (reference.startsWith('#')) return `${base}${reference}`;
+    try {
+      return new URL(reference, base).toString();
+    } catch {
+      // Relative references against a URN base: treat the reference as the resource name
+      return reference;
+    }
+  }
+
+  private static matchesType(value: any, type: JsonSchemaType): boolean {
+    if (type === 'integer') return Number.isInteger(value);
+    if (type === 'number') return typeof value === 'number' && Number.isFinite(value);
+    return this.typeOf(value) === type;
+  }
+
+  private static typeOf(value: any): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+  }
+
+  private static deepEqual(a: any, b: any): boolean {
+    if (a === b) return true;
+    if (typeof a !== typeof b || a === null || b === null || typeof a !== 'object') return false;
+    if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+    const keysA = Object.keys(a);
+    const keysB = Object.keys(b);
+    return keysA.length === keysB.length && keysA.every(key => hasOwn(b, key) && this.deepEqual(a[key], b[key]));
+  }
+
+  /**
+   * Short printable form of a value for messages
+   */
+  private static describe(value: any): string {
+    const text = JSON.stringify(value);
+    return text === undefined ? String(value) : text.length > 60 ? `${text.substring(0, 57)}...` : text;
+  }
+
+  /**
+   * Append a reference token to a JSON pointer (RFC 6901 escaping)
+   */
+  private static childPointer(pointer: string, token: string): string {
+    return `${pointer}/${token.replace(/~/g, '~0').replace(/\//g, '~1')}`;
+  }
+}
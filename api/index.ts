@@ -6,11 +6,79 @@
 
 // Client
 export { ApiClient } from './client/ApiClient';
-export type { ApiRequestOptions, ApiResponse } from './client/ApiClient';
+export type {
+  ApiRequestOptions,
+  ApiResponse,
+  ApiResponseTiming,
+  ApiResponseType,
+  ApiFilePart,
+  ApiFormFields,
+  ApiMultipartFields,
+} from './client/ApiClient';
+export { ApiMiddlewares, ApiMetrics } from './client/ApiMiddleware';
+export { AuthSessionManager, SKIP_AUTH } from './client/AuthSession';
+export type { AuthCredentials, AuthTokens, AuthSessionOptions } from './client/AuthSession';
+export type { ApiMiddleware, ApiRequest, ApiNext, ApiMetricEntry } from './client/ApiMiddleware';
+export { ApiStatusError } from './client/ApiStatusError';
+export { GraphQLClient, GraphQLResponseError } from './client/GraphQLClient';
+export type { GraphQLOperation, GraphQLError, GraphQLResult, GraphQLClientOptions } from './client/GraphQLClient';
+export { ShopifyStorefrontClient, ShopifyAjaxError } from './client/ShopifyStorefrontClient';
+export type {
+  ShopifyCart,
+  ShopifyLineItem,
+  ShopifyProduct,
+  ShopifyVariant,
+  ShopifyCollectionProduct,
+  ShopifyCartItemInput,
+  ShopifySearchSuggestions,
+} from './client/ShopifyStorefrontClient';
+export { Cassette, CassetteMismatchError, DEFAULT_IGNORED_HEADERS } from './client/Cassette';
+export type {
+  CassetteMode,
+  CassetteMatchOptions,
+  CassetteOptions,
+  CassetteEntry,
+  CassetteFile,
+} from './client/Cassette';
+export { SessionBridge } from './client/SessionBridge';
+export type { SessionTransferOptions } from './client/SessionBridge';
+export { Paginator } from './client/Pagination';
+export type {
+  PaginationStrategy,
+  PageNumberStrategy,
+  CursorStrategy,
+  LinkHeaderStrategy,
+  ShopifyPageInfoStrategy,
+  PaginateOptions,
+  Page,
+  PageTiming,
+} from './client/Pagination';
+export { RateLimiter } from './client/RateLimiter';
+export type { RateLimitPermit, RateLimiterStats } from './client/RateLimiter';
+export { QueryString } from './client/QueryString';
+export type { QueryParams, QueryValue, ArrayFormat, QueryStringOptions } from './client/QueryString';
+export { ApiRetry, DEFAULT_RETRY_POLICY, IDEMPOTENCY_KEY_HEADER } from './client/RetryPolicy';
+export type { RetryPolicy, RetryAttempt } from './client/RetryPolicy';
+
+// Resources
+export { AuthApi } from './resources/AuthApi';
+export type { LoginRequest, RegisterRequest, AuthResponse } from './resources/AuthApi';
+export { UsersApi } from './resources/UsersApi';
+export type { User, UpdateProfileRequest, ChangePasswordRequest } from './resources/UsersApi';
+export { ProductsApi } from './resources/ProductsApi';
+export type { Product, ProductFilters } from './resources/ProductsApi';
+export { OrdersApi } from './resources/OrdersApi';
+export type { Order, OrderItem, ShippingAddress, CreateOrderRequest } from './resources/OrdersApi';
+export { HealthApi } from './resources/HealthApi';
+export type { HealthStatus } from './resources/HealthApi';
 
 // Helpers
 export { ApiAssertions } from './helpers/ApiAssertions';
+export type { ResponseTimeThresholds } from './helpers/ApiAssertions';
 export { ApiHelpers } from './helpers/ApiHelpers';
+export { GraphQLAssertions } from './helpers/GraphQLAssertions';
+export { JsonSchemaValidator } from './helpers/JsonSchemaValidator';
+export type { JsonSchema, JsonSchemaType, JsonSchemaValidateOptions, SchemaViolation } from './helpers/JsonSchemaValidator';
 
 // Fixtures
 export { apiTest, test, expect } from './fixtures/ApiFixtures';
@@ -0,0 +1,87 @@
+import { ApiClient, ApiResponse } from '../client/ApiClient';
+import { SKIP_AUTH } from '../client/AuthSession';
+import { Endpoints } from '../endpoints/Endpoints';
+import { ApiTestData } from '../data/ApiTestData';
+import type { User } from './UsersApi';
+
+/**
+ * Login request (ApiTestData.AUTH.VALID_CREDENTIALS)
+ */
+export interface LoginRequest {
+  email: string;
+  password: string;
+}
+
+/**
+ * Registration request (ApiTestData.AUTH.NEW_USER)
+ */
+export interface RegisterRequest extends LoginRequest {
+  firstName: string;
+  lastName: string;
+}
+
+/**
+ * Tokens returned by login, register and refresh
+ */
+export interface AuthResponse {
+  accessToken?: string;
+  token?: string;
+  refreshToken?: string;
+  expiresIn?: number;
+  user?: User;
+}
+
+/**
+ * Auth API
+ * Login, registration and token endpoints
+ */
+export class AuthApi {
+  constructor(private readonly client: ApiClient) {}
+
+  /**
+   * Log in (default: ApiTestData.AUTH.VALID_CREDENTIALS)
+   */
+  async login(credentials: LoginRequest = ApiTestData.AUTH.VALID_CREDENTIALS): Promise<ApiResponse<AuthResponse>> {
+    return this.client.post<AuthResponse>(Endpoints.AUTH.LOGIN, credentials, {
+      failOnStatusCode: false,
+      metadata: { [SKIP_AUTH]: true },
+    });
+  }
+
+  /**
+   * Register a new user (default: a generated user)
+   */
+  async register(user: RegisterRequest = ApiTestData.generateUserData()): Promise<ApiResponse<AuthResponse>> {
+    return this.client.post<AuthResponse>(Endpoints.AUTH.REGISTER, user, {
+      failOnStatusCode: false,
+      metadata: { [SKIP_AUTH]: true },
+    });
+  }
+
+  /**
+   * Log out the current session
+   */
+  async logout(): Promise<ApiResponse<void>> {
+    return this.client.post<void>(Endpoints.AUTH.LOGOUT, undefined, { failOnStatusCode: false });
+  }
+
+  /**
+   * Exchange a refresh token for a new access token
+   */
+  async refresh(refreshToken: string): Promise<ApiResponse<AuthResponse>> {
+    return this.client.post<AuthResponse>(Endpoints.AUTH.REFRESH_TOKEN, { refreshToken }, {
+      failOnStatusCode: false,
+      metadata: { [SKIP_AUTH]: true },
+    });
+  }
+
+  /**
+   * Check whether a token is valid
+   */
+  async verify(token: string): Promise<ApiResponse<{ valid: boolean; user?: User }>> {
+    return this.client.post(Endpoints.AUTH.VERIFY_TOKEN, { token }, {
+      failOnStatusCode: false,
+      metadata: { [SKIP_AUTH]: true },
+    });
+  }
+}
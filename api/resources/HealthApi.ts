@@ -0,0 +1,39 @@
+import { ApiClient, ApiResponse } from '../client/ApiClient';
+import { Endpoints } from '../endpoints/Endpoints';
+
+/**
+ * Health check response
+ */
+export interface HealthStatus {
+  status: string;
+  [key: string]: any;
+}
+
+/**
+ * Health API
+ * Liveness and readiness endpoints
+ */
+export class HealthApi {
+  constructor(private readonly client: ApiClient) {}
+
+  /**
+   * Overall health
+   */
+  async check(): Promise<ApiResponse<HealthStatus>> {
+    return this.client.get<HealthStatus>(Endpoints.HEALTH.CHECK, { failOnStatusCode: false });
+  }
+
+  /**
+   * Readiness probe
+   */
+  async ready(): Promise<ApiResponse<HealthStatus>> {
+    return this.client.get<HealthStatus>(Endpoints.HEALTH.READY, { failOnStatusCode: false });
+  }
+
+  /**
+   * Liveness probe
+   */
+  async live(): Promise<ApiResponse<HealthStatus>> {
+    return this.client.get<HealthStatus>(Endpoints.HEALTH.LIVE, { failOnStatusCode: false });
+  }
+}
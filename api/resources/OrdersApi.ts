@@ -0,0 +1,79 @@
+import { ApiClient, ApiResponse } from '../client/ApiClient';
+import { QueryParams } from '../client/QueryString';
+import { Endpoints } from '../endpoints/Endpoints';
+
+/**
+ * Order line
+ */
+export interface OrderItem {
+  productId: string;
+  quantity: number;
+}
+
+/**
+ * Shipping address
+ */
+export interface ShippingAddress {
+  street: string;
+  city: string;
+  state: string;
+  zipCode: string;
+  country: string;
+}
+
+/**
+ * Order creation request (ApiTestData.ORDER.CREATE)
+ */
+export interface CreateOrderRequest {
+  items: OrderItem[];
+  shippingAddress: ShippingAddress;
+}
+
+/**
+ * Order
+ */
+export interface Order extends CreateOrderRequest {
+  id: string;
+  status: string;
+  total?: number;
+  createdAt?: string;
+  [key: string]: any;
+}
+
+/**
+ * Orders API
+ * Order placement, lookup and cancellation endpoints
+ */
+export class OrdersApi {
+  constructor(private readonly client: ApiClient) {}
+
+  /**
+   * List the signed-in user's orders
+   */
+  async list(params?: QueryParams): Promise<ApiResponse<Order[]>> {
+    return this.client.get<Order[]>(Endpoints.ORDERS.LIST, { params, failOnStatusCode: false });
+  }
+
+  /**
+   * Place an order
+   * @param order - Order to create
+   * @param idempotencyKey - Makes the request safe to retry
+   */
+  async create(order: CreateOrderRequest, idempotencyKey?: string): Promise<ApiResponse<Order>> {
+    return this.client.post<Order>(Endpoints.ORDERS.CREATE, order, { idempotencyKey, failOnStatusCode: false });
+  }
+
+  /**
+   * Get an order by ID
+   */
+  async get(id: string): Promise<ApiResponse<Order>> {
+    return this.client.get<Order>(Endpoints.ORDERS.DETAIL(id), { failOnStatusCode: false });
+  }
+
+  /**
+   * Cancel an order
+   */
+  async cancel(id: string): Promise<ApiResponse<Order>> {
+    return this.client.post<Order>(Endpoints.ORDERS.CANCEL(id), undefined, { failOnStatusCode: false });
+  }
+}
@@ -0,0 +1,56 @@
+import { ApiClient, ApiResponse } from '../client/ApiClient';
+import { QueryParams } from '../client/QueryString';
+import { Endpoints } from '../endpoints/Endpoints';
+
+/**
+ * Product
+ */
+export interface Product {
+  id: string;
+  name: string;
+  price: number;
+  category?: string;
+  description?: string;
+  [key: string]: any;
+}
+
+/**
+ * Product search filters (ApiTestData.PRODUCT.FILTERS)
+ */
+export interface ProductFilters {
+  category?: string;
+  minPrice?: number;
+  maxPrice?: number;
+}
+
+/**
+ * Products API
+ * Catalogue listing, detail and search endpoints
+ */
+export class ProductsApi {
+  constructor(private readonly client: ApiClient) {}
+
+  /**
+   * List products
+   */
+  async list(params?: QueryParams): Promise<ApiResponse<Product[]>> {
+    return this.client.get<Product[]>(Endpoints.PRODUCTS.LIST, { params, failOnStatusCode: false });
+  }
+
+  /**
+   * Get a product by ID
+   */
+  async get(id: string): Promise<ApiResponse<Product>> {
+    return this.client.get<Product>(Endpoints.PRODUCTS.DETAIL(id), { failOnStatusCode: false });
+  }
+
+  /**
+   * Search products (ApiTestData.PRODUCT.SEARCH_QUERY with ApiTestData.PRODUCT.FILTERS)
+   */
+  async search(query: string, filters: ProductFilters = {}): Promise<ApiResponse<Product[]>> {
+    return this.client.get<Product[]>(Endpoints.PRODUCTS.SEARCH, {
+      params: { q: query, ...filters },
+      failOnStatusCode: false,
+    });
+  }
+}
@@ -0,0 +1,68 @@
+import { ApiClient, ApiResponse } from '../client/ApiClient';
+import { QueryParams } from '../client/QueryString';
+import { Endpoints } from '../endpoints/Endpoints';
+
+/**
+ * User
+ */
+export interface User {
+  id: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  phone?: string;
+  [key: string]: any;
+}
+
+/**
+ * Profile update (ApiTestData.USER.UPDATE_PROFILE)
+ */
+export interface UpdateProfileRequest {
+  firstName?: string;
+  lastName?: string;
+  phone?: string;
+}
+
+/**
+ * Password change (ApiTestData.USER.CHANGE_PASSWORD)
+ */
+export interface ChangePasswordRequest {
+  currentPassword: string;
+  newPassword: string;
+}
+
+/**
+ * Users API
+ * Profile and account endpoints for the signed-in user
+ */
+export class UsersApi {
+  constructor(private readonly client: ApiClient) {}
+
+  /**
+   * List users
+   */
+  async list(params?: QueryParams): Promise<ApiResponse<User[]>> {
+    return this.client.get<User[]>(Endpoints.USERS.BASE, { params, failOnStatusCode: false });
+  }
+
+  /**
+   * Get the signed-in user's profile
+   */
+  async getProfile(): Promise<ApiResponse<User>> {
+    return this.client.get<User>(Endpoints.USERS.PROFILE, { failOnStatusCode: false });
+  }
+
+  /**
+   * Update the signed-in user's profile
+   */
+  async updateProfile(profile: UpdateProfileRequest): Promise<ApiResponse<User>> {
+    return this.client.put<User>(Endpoints.USERS.UPDATE_PROFILE, profile, { failOnStatusCode: false });
+  }
+
+  /**
+   * Change the signed-in user's password
+   */
+  async changePassword(change: ChangePasswordRequest): Promise<ApiResponse<void>> {
+    return this.client.post<void>(Endpoints.USERS.CHANGE_PASSWORD, change, { failOnStatusCode: false });
+  }
+}
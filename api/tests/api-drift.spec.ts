@@ -0,0 +1,69 @@
+import { test, expect } from '../fixtures/ApiFixtures';
+import type { ApiCall, ApiCaptureFile } from '../../utils/ApiCapture';
+import { ApiDrift, diffValues } from '../../utils/ApiDrift';
+
+function capture(testName: string, calls: Array<Partial<ApiCall>>): ApiCaptureFile {
+  return {
+    testName,
+    timestamp: new Date(0).toISOString(),
+    totalCalls: calls.length,
+    methodSummary: {},
+    apiCalls: calls.map((call, index) => ({ method: 'GET', url: '', headers: {}, status: 200, timestamp: index, ...call })),
+  };
+}
+
+test.describe('ApiDrift', () => {
+  test('compares the same endpoint across different IDs and handles', () => {
+    const base = capture('base', [
+      { url: 'https://shop.test/products/shampoo.js', responseBody: { id: 1, title: 'Shampoo', price: 1000 } },
+      { url: 'https://api.test/v3/product/10011597242667/ratings', responseBody: { rating: 4 } },
+    ]);
+    const current = capture('current', [
+      { url: 'https://shop.test/products/conditioner.js?variant=2', responseBody: { id: 2, title: 'Conditioner', price: '10.00', vendor: 'X' } },
+      { url: 'https://api.test/v3/product/10017093353771/ratings', responseBody: { rating: 4.5 } },
+    ]);
+
+    const report = ApiDrift.compare(base, current);
+
+    expect(report.addedEndpoints).toEqual([]);
+    expect(report.removedEndpoints).toEqual([]);
+    expect(report.summary).toMatchObject({ changedEndpoints: 1, unchangedEndpoints: 1 });
+    expect(report.changedEndpoints).toEqual([{
+      endpoint: 'GET shop.test/products/{productHandle}.js',
+      addedFields: ['$.vendor'],
+      missingFields: [],
+      typeChanges: [{ path: '$.price', base: ['number'], current: ['string'] }],
+    }]);
+  });
+
+  test('reports added and removed endpoints, status and latency changes', () => {
+    const base = capture('base', [
+      { url: 'https://shop.test/cart.js', responseBody: {}, duration: 100 },
+      { url: 'https://shop.test/search/suggest.json', responseBody: {} },
+    ]);
+    const current = capture('current', [
+      { url: 'https://shop.test/cart.js', status: 500, responseBody: {}, duration: 400 },
+      { method: 'POST', url: 'https://shop.test/cart/add.js', responseBody: {} },
+    ]);
+
+    const report = ApiDrift.compare(base, current);
+
+    expect(report.addedEndpoints).toEqual(['POST shop.test/cart/add.js']);
+    expect(report.removedEndpoints).toEqual(['GET shop.test/search/suggest.json']);
+    expect(report.changedEndpoints[0]).toMatchObject({
+      endpoint: 'GET shop.test/cart.js',
+      statusChange: { base: [200], current: [500] },
+      latencyChange: { baseMs: 100, currentMs: 400, changePct: 300 },
+    });
+    expect(ApiDrift.hasDrift(report)).toBe(true);
+  });
+
+  test('diffValues lists path-level differences', () => {
+    expect(diffValues({ a: 1, b: [1, 2], c: 'x' }, { a: '1', b: [1], d: null })).toEqual([
+      '$.a: type number -> string',
+      '$.b: length 2 -> 1',
+      '$.c: removed',
+      '$.d: added',
+    ]);
+  });
+});
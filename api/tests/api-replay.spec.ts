@@ -0,0 +1,81 @@
+import type { Page, Request, Route } from '@playwright/test';
+import { test, expect } from '../fixtures/ApiFixtures';
+import type { ApiCall, ApiCaptureFile } from '../../utils/ApiCapture';
+import { ApiReplay, ApiReplayOptions } from '../../utils/ApiReplay';
+import { Redactor } from '../../utils/Redactor';
+
+const redactor = new Redactor();
+
+/**
+ * Capture file written the way ApiCapture writes one: calls redacted, rules summarised
+ */
+function redactedCapture(calls: Array<Partial<ApiCall>>): ApiCaptureFile {
+  return {
+    testName: 'replay',
+    timestamp: new Date(0).toISOString(),
+    totalCalls: calls.length,
+    methodSummary: {},
+    redaction: redactor.describe(),
+    apiCalls: calls.map((call, index) => redactor.redactApiCall({
+      method: 'GET',
+      url: '',
+      headers: {},
+      status: 200,
+      responseHeaders: { 'content-type': 'application/json' },
+      timestamp: index,
+      ...call,
+    })),
+  };
+}
+
+/**
+ * Install a replay on a fake page and return a function that routes one request through it
+ */
+async function install(capture: ApiCaptureFile, options: Omit<ApiReplayOptions, 'file'> = {}) {
+  const replay = new ApiReplay(capture, { file: 'unused.json', strict: true, ...options });
+  let handler: (route: Route) => Promise<void> = async () => {};
+  await replay.install({ route: async (_url: string, routeHandler: typeof handler) => { handler = routeHandler; } } as unknown as Page);
+
+  const route = async (method: string, url: string, postData?: string) => {
+    const outcome: { fulfilled?: { status?: number; body?: string | Buffer }; aborted?: boolean } = {};
+    await handler({
+      request: () => ({ method: () => method, url: () => url, postData: () => postData ?? null }) as Request,
+      fulfill: async (response: { status?: number; body?: string | Buffer }) => { outcome.fulfilled = response; },
+      abort: async () => { outcome.aborted = true; },
+      continue: async () => {},
+    } as unknown as Route);
+    return outcome;
+  };
+
+  return { replay, route };
+}
+
+test.describe('ApiReplay', () => {
+  test('serves calls whose query values were redacted in the capture', async () => {
+    const url = 'https://shop.test/account/register?email=user%40example.com&redirect=result';
+    const { replay, route } = await install(redactedCapture([{ url, responseBody: { ok: true } }]));
+
+    const outcome = await route('GET', url);
+
+    expect(outcome.fulfilled?.status).toBe(200);
+    expect(outcome.fulfilled?.body).toBe('{"ok":true}');
+    expect(() => replay.assertNoUnmatchedRequests()).not.toThrow();
+  });
+
+  test('matches redacted request bodies', async () => {
+    const url = 'https://shop.test/api/auth/login';
+    const postData = JSON.stringify({ email: 'user@example.com', password: 'secret' });
+    const { route } = await install(redactedCapture([{ method: 'POST', url, postData, responseBody: { id: 1 } }]), { matchBody: true });
+
+    expect((await route('POST', url, postData)).fulfilled?.status).toBe(200);
+    expect((await route('POST', url, JSON.stringify({ email: 'other@example.com', password: 'secret', remember: true }))).aborted).toBe(true);
+  });
+
+  test('compares live requests as-is when redaction is disabled', async () => {
+    const url = 'https://shop.test/account/register?email=user%40example.com';
+    const { replay, route } = await install(redactedCapture([{ url }]), { redactor: null });
+
+    expect((await route('GET', url)).aborted).toBe(true);
+    expect(() => replay.assertNoUnmatchedRequests()).toThrow('1 unrecorded request(s)');
+  });
+});
@@ -0,0 +1,140 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { test, expect } from '../fixtures/ApiFixtures';
+import { ApiClient } from '../client/ApiClient';
+import { ApiStatusError } from '../client/ApiStatusError';
+import { AuthSessionManager } from '../client/AuthSession';
+import { Endpoints } from '../endpoints/Endpoints';
+
+/**
+ * Local auth server: login issues "expired" (rejected with 401), refresh issues "fresh".
+ * Refresh tokens rotate, so each one can be used once.
+ */
+function startAuthServer() {
+  const calls = { login: 0, refresh: 0, requests: [] as string[] };
+  let acceptedToken = 'fresh';
+  const usedRefreshTokens = new Set<string>();
+
+  const server = http.createServer((req, res) => {
+    const reply = (status: number, body: object) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+
+    if (req.url === Endpoints.AUTH.LOGIN) {
+      calls.login++;
+      return reply(200, { accessToken: 'expired', refreshToken: 'refresh-1' });
+    }
+    if (req.url === Endpoints.AUTH.REFRESH_TOKEN) {
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => {
+        calls.refresh++;
+        const { refreshToken } = JSON.parse(body);
+        if (usedRefreshTokens.has(refreshToken)) return reply(401, { error: 'Refresh token already used' });
+        usedRefreshTokens.add(refreshToken);
+        // Slow enough for concurrent 401s to arrive while the refresh is in flight
+        setTimeout(() => reply(200, { accessToken: 'fresh', refreshToken: `${refreshToken}-next` }), 100);
+      });
+      return;
+    }
+
+    calls.requests.push(`${req.method} ${req.url} ${req.headers.authorization}`);
+    if (req.headers.authorization !== `Bearer ${acceptedToken}`) {
+      return reply(401, { error: 'Unauthorized' });
+    }
+    return req.url === '/api/missing' ? reply(404, { error: 'Not found' }) : reply(200, { ok: true });
+  });
+
+  return {
+    server,
+    calls,
+    rejectEveryToken: () => { acceptedToken = 'none'; },
+    baseUrl: () => `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+  };
+}
+
+test.describe('AuthSessionManager', () => {
+  let auth: ReturnType<typeof startAuthServer>;
+  let client: ApiClient;
+
+  test.beforeEach(async ({ apiRequest }) => {
+    auth = startAuthServer();
+    await new Promise<void>(resolve => auth.server.listen(0, '127.0.0.1', resolve));
+
+    client = new ApiClient(apiRequest, auth.baseUrl());
+    client.use(new AuthSessionManager(client).middleware());
+  });
+
+  test.afterEach(async () => {
+    await new Promise(resolve => auth.server.close(resolve));
+  });
+
+  test('refreshes the token and replays a GET after a 401', async () => {
+    const response = await client.get('/api/orders');
+
+    expect(response.status).toBe(200);
+    expect(auth.calls.login).toBe(1);
+    expect(auth.calls.refresh).toBe(1);
+    expect(auth.calls.requests).toEqual(['GET /api/orders Bearer expired', 'GET /api/orders Bearer fresh']);
+  });
+
+  test('refreshes the token and replays a POST after a 401', async () => {
+    const response = await client.post('/api/orders', { item: 1 });
+
+    expect(response.status).toBe(200);
+    expect(auth.calls.refresh).toBe(1);
+    expect(auth.calls.requests).toEqual(['POST /api/orders Bearer expired', 'POST /api/orders Bearer fresh']);
+  });
+
+  test('reuses the refreshed token for later requests', async () => {
+    await client.get('/api/orders');
+    await client.get('/api/orders');
+
+    expect(auth.calls.refresh).toBe(1);
+    expect(auth.calls.requests.slice(2)).toEqual(['GET /api/orders Bearer fresh']);
+  });
+
+  test('shares one refresh between concurrent 401s', async () => {
+    const responses = await Promise.all([client.get('/api/orders'), client.get('/api/products'), client.post('/api/carts', {})]);
+
+    expect(responses.map(response => response.status)).toEqual([200, 200, 200]);
+    expect(auth.calls.login).toBe(1);
+    expect(auth.calls.refresh).toBe(1);
+  });
+
+  test('fails fast when a role has no password', async () => {
+    const session = new AuthSessionManager(client, { roles: { admin: { email: 'admin@example.com', password: '' } } });
+
+    await expect(session.login('admin')).rejects.toThrow('No password configured for role "admin"');
+    expect(auth.calls.login).toBe(0);
+  });
+
+  test('throws ApiStatusError when the replay is still unauthorized', async () => {
+    auth.rejectEveryToken();
+
+    const error = await client.get('/api/orders').catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ApiStatusError);
+    expect(error.status).toBe(401);
+    expect(auth.calls.refresh).toBe(1);
+    expect(auth.calls.requests).toHaveLength(2);
+  });
+
+  test('returns the final 401 when failOnStatusCode is false', async () => {
+    auth.rejectEveryToken();
+
+    const response = await client.get('/api/orders', { failOnStatusCode: false });
+
+    expect(response.status).toBe(401);
+    expect(auth.calls.requests).toHaveLength(2);
+  });
+
+  test('applies failOnStatusCode to other error statuses of the replay', async () => {
+    const error = await client.get('/api/missing').catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ApiStatusError);
+    expect(error.status).toBe(404);
+    expect(auth.calls.refresh).toBe(1);
+  });
+});
@@ -0,0 +1,127 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { APIRequestContext } from '@playwright/test';
+import { test, expect } from '../fixtures/ApiFixtures';
+import { ApiClient } from '../client/ApiClient';
+import { ApiStatusError } from '../client/ApiStatusError';
+import { Cassette, CassetteFile, CassetteMismatchError, CassetteMode, CassetteOptions } from '../client/Cassette';
+
+test.describe('Cassette', () => {
+  let server: http.Server;
+  let hits: string[];
+  let baseUrl: string;
+  let file: string;
+
+  test.beforeEach(async ({}, testInfo) => {
+    hits = [];
+    file = testInfo.outputPath('cassette.json');
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => {
+        hits.push(`${req.method} ${req.url}`);
+        res.writeHead(req.url === '/api/missing' ? 404 : 200, { 'Content-Type': 'application/json', 'Set-Cookie': 'session=abc' });
+        res.end(JSON.stringify({ hit: hits.length, received: body ? JSON.parse(body) : null }));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  test.afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  function clientWith(apiRequest: APIRequestContext, mode: CassetteMode, options: Partial<CassetteOptions> = {}) {
+    const cassette = new Cassette({ file, mode, ...options });
+    const client = new ApiClient(apiRequest, baseUrl);
+    client.setCassette(cassette);
+    return { client, cassette };
+  }
+
+  test('replays recorded exchanges without the network', async ({ apiRequest }) => {
+    const recording = clientWith(apiRequest, 'record');
+    await recording.client.post('/api/orders', { sku: 'A' });
+    await recording.client.get('/api/orders', { params: { page: 1 } });
+    recording.cassette.save();
+
+    const replaying = clientWith(apiRequest, 'replay');
+    const created = await replaying.client.post('/api/orders', { sku: 'A' });
+    const listed = await replaying.client.get('/api/orders', { params: { page: 1 } });
+
+    expect(created.body).toEqual({ hit: 1, received: { sku: 'A' } });
+    expect(listed.body).toEqual({ hit: 2, received: null });
+    expect(hits).toEqual(['POST /api/orders', 'GET /api/orders?page=1']);
+  });
+
+  test('fails unrecorded requests in replay mode', async ({ apiRequest }) => {
+    const recording = clientWith(apiRequest, 'record');
+    await recording.client.post('/api/orders', { sku: 'A' });
+    recording.cassette.save();
+
+    const replaying = clientWith(apiRequest, 'replay');
+    const error = await replaying.client.post('/api/orders', { sku: 'B' }).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(CassetteMismatchError);
+    expect(error.message).toContain('Recorded POST requests for this path');
+    expect(hits).toHaveLength(1);
+  });
+
+  test('replays error statuses and applies failOnStatusCode to them', async ({ apiRequest }) => {
+    const recording = clientWith(apiRequest, 'record');
+    expect((await recording.client.get('/api/missing', { failOnStatusCode: false })).status).toBe(404);
+    recording.cassette.save();
+
+    const replaying = clientWith(apiRequest, 'replay');
+    expect((await replaying.client.get('/api/missing', { failOnStatusCode: false })).status).toBe(404);
+
+    const error = await replaying.client.get('/api/missing').catch(caught => caught);
+    expect(error).toBeInstanceOf(ApiStatusError);
+    expect(error.status).toBe(404);
+  });
+
+  test('ignores configured body fields and query parameters when matching', async ({ apiRequest }) => {
+    const matching = { ignoreBodyFields: ['**.nonce'], ignoreQueryParams: ['_'] };
+    const recording = clientWith(apiRequest, 'record', matching);
+    await recording.client.post('/api/orders', { sku: 'A', meta: { nonce: 1 } }, { params: { _: 1 } });
+    recording.cassette.save();
+
+    const replaying = clientWith(apiRequest, 'replay', matching);
+    const response = await replaying.client.post('/api/orders', { sku: 'A', meta: { nonce: 2 } }, { params: { _: 2 } });
+
+    expect(response.status).toBe(200);
+    expect(hits).toHaveLength(1);
+  });
+
+  test('new-episodes replays known requests and records the rest', async ({ apiRequest }) => {
+    const recording = clientWith(apiRequest, 'record');
+    await recording.client.get('/api/orders');
+    recording.cassette.save();
+
+    const extending = clientWith(apiRequest, 'new-episodes');
+    await extending.client.get('/api/orders');
+    await extending.client.get('/api/products');
+    extending.cassette.save();
+
+    expect(hits).toEqual(['GET /api/orders', 'GET /api/products']);
+    expect(extending.cassette.getEntries().map(entry => entry.request.url)).toEqual([
+      `${baseUrl}/api/orders`,
+      `${baseUrl}/api/products`,
+    ]);
+  });
+
+  test('redacts recorded requests and response headers', async ({ apiRequest }) => {
+    const recording = clientWith(apiRequest, 'record');
+    recording.client.setAuthToken('secret-token');
+    await recording.client.post('/api/login', { email: 'user@example.com', password: 'secret' });
+    recording.cassette.save();
+
+    const saved = JSON.parse(fs.readFileSync(file, 'utf-8')) as CassetteFile;
+    const [entry] = saved.entries;
+
+    expect(entry.request.headers['Authorization']).toBe('[REDACTED]');
+    expect(entry.request.body).toEqual({ email: '[REDACTED]', password: '[REDACTED]' });
+    expect(entry.response.headers['set-cookie']).toBe('[REDACTED]');
+  });
+});
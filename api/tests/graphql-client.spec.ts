@@ -0,0 +1,116 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { test, expect } from '../fixtures/ApiFixtures';
+import { ApiClient } from '../client/ApiClient';
+import { GraphQLClient, GraphQLResponseError } from '../client/GraphQLClient';
+
+const PRODUCT_QUERY = 'query Product($handle: String!) { product(handle: $handle) { id title } }';
+const CART_MUTATION = 'mutation CartCreate { cartCreate { cart { id } } }';
+
+type Responder = (body: any, attempt: number) => { status?: number; body: object };
+
+test.describe('GraphQLClient', () => {
+  let server: http.Server;
+  let received: Array<{ body: any; headers: http.IncomingHttpHeaders }>;
+  let respond: Responder;
+  let client: ApiClient;
+
+  test.beforeEach(async ({ apiRequest }) => {
+    received = [];
+    respond = () => ({ body: { data: { ok: true } } });
+    server = http.createServer((req, res) => {
+      let raw = '';
+      req.on('data', chunk => (raw += chunk));
+      req.on('end', () => {
+        const body = JSON.parse(raw);
+        received.push({ body, headers: req.headers });
+        const reply = respond(body, received.length);
+        res.writeHead(reply.status ?? 200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(reply.body));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+    client = new ApiClient(apiRequest, `http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+    client.setRetryPolicy({ delay: 1, jitter: 0 });
+  });
+
+  test.afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  test('sends the query, variables and operation name', async () => {
+    respond = () => ({ body: { data: { product: { id: '1', title: 'Shampoo' } } } });
+    const graphql = new GraphQLClient(client, '/graphql', { headers: { 'X-Shop': 'test' } });
+
+    const data = await graphql.query(PRODUCT_QUERY, { handle: 'shampoo' });
+
+    expect(data).toEqual({ product: { id: '1', title: 'Shampoo' } });
+    expect(received[0].body).toEqual({ operationName: 'Product', variables: { handle: 'shampoo' }, query: PRODUCT_QUERY });
+    expect(received[0].headers['x-shop']).toBe('test');
+  });
+
+  test('sends the hash first and the full query only when the server asks', async () => {
+    respond = body => body.query
+      ? { body: { data: { product: null } } }
+      : { body: { errors: [{ message: 'PersistedQueryNotFound', extensions: { code: 'PERSISTED_QUERY_NOT_FOUND' } }] } };
+    const graphql = new GraphQLClient(client, '/graphql', { persistedQueries: true });
+
+    const result = await graphql.execute({ query: PRODUCT_QUERY, variables: { handle: 'x' } });
+
+    const extensions = { persistedQuery: { version: 1, sha256Hash: GraphQLClient.hashQuery(PRODUCT_QUERY) } };
+    expect(result.errors).toEqual([]);
+    expect(received.map(request => request.body)).toEqual([
+      { operationName: 'Product', variables: { handle: 'x' }, extensions },
+      { operationName: 'Product', variables: { handle: 'x' }, query: PRODUCT_QUERY, extensions },
+    ]);
+  });
+
+  test('does not resend a persisted query the server already knows', async () => {
+    const graphql = new GraphQLClient(client, '/graphql');
+
+    await graphql.execute({ query: PRODUCT_QUERY, persisted: true });
+
+    expect(received).toHaveLength(1);
+    expect(received[0].body.query).toBeUndefined();
+  });
+
+  test('treats errors on HTTP 200 as failures', async () => {
+    respond = () => ({ body: { data: { product: null }, errors: [{ message: 'Access denied', path: ['product'] }] } });
+    const graphql = new GraphQLClient(client, '/graphql');
+
+    const result = await graphql.execute({ query: PRODUCT_QUERY });
+    expect(result.response.status).toBe(200);
+    expect(result.errors).toEqual([{ message: 'Access denied', path: ['product'] }]);
+
+    const error = await graphql.query(PRODUCT_QUERY).catch(caught => caught);
+    expect(error).toBeInstanceOf(GraphQLResponseError);
+    expect(error.message).toBe('GraphQL Product failed with HTTP 200: Access denied (at product)');
+  });
+
+  test('reports HTTP errors without a GraphQL body as errors', async () => {
+    respond = () => ({ status: 400, body: {} });
+    const graphql = new GraphQLClient(client, '/graphql');
+
+    const result = await graphql.execute({ query: PRODUCT_QUERY });
+
+    expect(result.data).toBeNull();
+    expect(result.errors).toEqual([{ message: 'HTTP 400 Bad Request' }]);
+  });
+
+  test('retries queries but not mutations', async () => {
+    respond = (_body, attempt) => attempt === 1 ? { status: 503, body: {} } : { body: { data: { ok: true } } };
+    const graphql = new GraphQLClient(client, '/graphql');
+
+    expect(await graphql.query(PRODUCT_QUERY)).toEqual({ ok: true });
+    expect(received).toHaveLength(2);
+
+    received = [];
+    respond = () => ({ status: 503, body: {} });
+    const error = await graphql.mutate(CART_MUTATION).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(GraphQLResponseError);
+    expect(error.result.response.status).toBe(503);
+    expect(received).toHaveLength(1);
+  });
+});
@@ -0,0 +1,326 @@
+import { test, expect } from '../fixtures/ApiFixtures';
+import { JsonSchema, JsonSchemaValidateOptions, JsonSchemaValidator, SchemaViolation } from '../helpers/JsonSchemaValidator';
+
+/**
+ * Violations as "<pointer> <keyword>" for compact assertions
+ */
+function check(value: any, schema: JsonSchema | boolean, options?: JsonSchemaValidateOptions): string[] {
+  return JsonSchemaValidator.validate(value, schema, options).map((violation: SchemaViolation) => `${violation.path} ${violation.keyword}`);
+}
+
+test.describe('JsonSchemaValidator', () => {
+  test.describe('type, enum and const', () => {
+    test('type accepts a single type or a list of types', () => {
+      expect(check('a', { type: 'string' })).toEqual([]);
+      expect(check(1, { type: 'string' })).toEqual([' type']);
+      expect(check(null, { type: ['string', 'null'] })).toEqual([]);
+      expect(check(true, { type: ['string', 'null'] })).toEqual([' type']);
+    });
+
+    test('integer, number, array and object are told apart', () => {
+      expect(check(2, { type: 'integer' })).toEqual([]);
+      expect(check(2.5, { type: 'integer' })).toEqual([' type']);
+      expect(check(2.5, { type: 'number' })).toEqual([]);
+      expect(check([], { type: 'object' })).toEqual([' type']);
+      expect(check({}, { type: 'array' })).toEqual([' type']);
+    });
+
+    test('type mismatch message names expected and actual types', () => {
+      const [violation] = JsonSchemaValidator.validate({ id: '1' }, { properties: { id: { type: ['integer', 'null'] } } });
+      expect(violation).toEqual({ path: '/id', keyword: 'type', message: 'expected integer | null, got string' });
+    });
+
+    test('enum and const compare deeply', () => {
+      expect(check({ a: [1] }, { enum: ['x', { a: [1] }] })).toEqual([]);
+      expect(check({ a: [2] }, { enum: ['x', { a: [1] }] })).toEqual([' enum']);
+      expect(check({ a: 1 }, { const: { a: 1 } })).toEqual([]);
+      expect(check({ a: 1, b: 2 }, { const: { a: 1 } })).toEqual([' const']);
+      expect(check(null, { const: null })).toEqual([]);
+    });
+
+    test('boolean schemas allow everything or nothing', () => {
+      expect(check({ any: 'thing' }, true)).toEqual([]);
+      expect(check(1, false)).toEqual([' false']);
+      expect(check([1, 2], { prefixItems: [true, false] })).toEqual(['/1 false']);
+    });
+  });
+
+  test.describe('numbers', () => {
+    test('minimum, maximum and their exclusive forms', () => {
+      const schema: JsonSchema = { minimum: 1, maximum: 10 };
+      expect(check(1, schema)).toEqual([]);
+      expect(check(10, schema)).toEqual([]);
+      expect(check(0, schema)).toEqual([' minimum']);
+      expect(check(11, schema)).toEqual([' maximum']);
+      expect(check(1, { exclusiveMinimum: 1 })).toEqual([' exclusiveMinimum']);
+      expect(check(10, { exclusiveMaximum: 10 })).toEqual([' exclusiveMaximum']);
+    });
+
+    test('multipleOf tolerates floating point error', () => {
+      expect(check(0.3, { multipleOf: 0.1 })).toEqual([]);
+      expect(check(19.99, { multipleOf: 0.01 })).toEqual([]);
+      expect(check(7, { multipleOf: 2 })).toEqual([' multipleOf']);
+    });
+  });
+
+  test.describe('strings', () => {
+    test('minLength and maxLength count code points', () => {
+      expect(check('😀', { minLength: 1, maxLength: 1 })).toEqual([]);
+      expect(check('', { minLength: 1 })).toEqual([' minLength']);
+      expect(check('abc', { maxLength: 2 })).toEqual([' maxLength']);
+    });
+
+    test('pattern is unanchored', () => {
+      expect(check('order-42', { pattern: '\\d+' })).toEqual([]);
+      expect(check('order', { pattern: '^order-\\d+$' })).toEqual([' pattern']);
+    });
+
+    const formats: Array<[string, string[], string[]]> = [
+      ['email', ['user@example.com'], ['user@', 'user example.com']],
+      ['date-time', ['2024-02-29T10:00:00Z', '2024-01-31T23:59:59.123+05:30'], ['2024-02-30T10:00:00Z', '2023-02-29T10:00:00Z', '2024-04-31T00:00:00Z', '2024-01-01 10:00:00Z', '2024-01-01T25:00:00Z']],
+      ['date', ['2024-02-29', '2000-02-29', '2024-12-31'], ['2024-02-30', '1900-02-29', '2024-13-01', '2024-00-10', '2024-01-00', '2024-1-1']],
+      ['time', ['10:00:00Z', '23:59:59.5+01:00'], ['10:00', '10:00:00']],
+      ['uri', ['https://example.com/a?b=c', 'urn:isbn:123'], ['/relative/path', 'not a uri']],
+      ['uri-reference', ['/relative/path', 'https://example.com'], ['has space']],
+      ['uuid', ['123e4567-e89b-12d3-a456-426614174000'], ['123e4567-e89b-12d3-a456', 'not-a-uuid']],
+      ['ipv4', ['192.168.0.1'], ['256.1.1.1', '1.2.3']],
+      ['ipv6', ['::1', '2001:db8::8a2e:370:7334'], ['12345::', '1.2.3.4']],
+      ['hostname', ['shop.example.com', 'localhost'], ['-bad.example.com', 'under_score.com']],
+    ];
+    for (const [format, valid, invalid] of formats) {
+      test(`format ${format}`, () => {
+        valid.forEach(value => expect(check(value, { format }), value).toEqual([]));
+        invalid.forEach(value => expect(check(value, { format }), value).toEqual([' format']));
+      });
+    }
+
+    test('custom formats are added and unknown formats ignored', () => {
+      const options = { formats: { sku: (value: string) => /^SKU-\d+$/.test(value) } };
+      expect(check('SKU-1', { format: 'sku' }, options)).toEqual([]);
+      expect(check('1', { format: 'sku' }, options)).toEqual([' format']);
+      expect(check('anything', { format: 'not-a-known-format' })).toEqual([]);
+    });
+  });
+
+  test.describe('arrays', () => {
+    test('items and prefixItems', () => {
+      const schema: JsonSchema = { prefixItems: [{ type: 'string' }, { type: 'number' }], items: { type: 'boolean' } };
+      expect(check(['a', 1, true, false], schema)).toEqual([]);
+      expect(check([1, 'a', 'b'], schema)).toEqual(['/0 type', '/1 type', '/2 type']);
+    });
+
+    test('minItems, maxItems and uniqueItems', () => {
+      expect(check([], { minItems: 1 })).toEqual([' minItems']);
+      expect(check([1, 2, 3], { maxItems: 2 })).toEqual([' maxItems']);
+      expect(check([{ a: 1 }, { a: 2 }, { a: 1 }], { uniqueItems: true })).toEqual(['/2 uniqueItems']);
+    });
+
+    test('contains with minContains and maxContains', () => {
+      const contains: JsonSchema = { type: 'integer' };
+      expect(check(['a', 1], { contains })).toEqual([]);
+      expect(check(['a'], { contains })).toEqual([' contains']);
+      expect(check([1, 'a'], { contains, minContains: 2 })).toEqual([' contains']);
+      expect(check([1, 2, 3], { contains, maxContains: 2 })).toEqual([' maxContains']);
+    });
+  });
+
+  test.describe('objects', () => {
+    test('properties and required point at the property', () => {
+      const schema: JsonSchema = { properties: { id: { type: 'integer' } }, required: ['id', 'name'] };
+      expect(check({ id: 1, name: 'a' }, schema)).toEqual([]);
+      expect(check({ id: 'x' }, schema)).toEqual(['/name required', '/id type']);
+    });
+
+    test('additionalProperties, patternProperties and propertyNames', () => {
+      const schema: JsonSchema = {
+        properties: { id: {} },
+        patternProperties: { '^x-': { type: 'string' } },
+        additionalProperties: false,
+      };
+      expect(check({ id: 1, 'x-trace': 'a' }, schema)).toEqual([]);
+      expect(check({ id: 1, 'x-trace': 2, extra: 1 }, schema)).toEqual(['/x-trace type', '/extra additionalProperties']);
+      expect(check({ a: 1, b: 'x' }, { additionalProperties: { type: 'integer' } })).toEqual(['/b type']);
+      expect(check({ Valid: 1, invalid: 2 }, { propertyNames: { pattern: '^[A-Z]' } })).toEqual(['/invalid propertyNames']);
+    });
+
+    test('minProperties and maxProperties', () => {
+      expect(check({}, { minProperties: 1 })).toEqual([' minProperties']);
+      expect(check({ a: 1, b: 2 }, { maxProperties: 1 })).toEqual([' maxProperties']);
+    });
+
+    test('dependentRequired and dependentSchemas', () => {
+      expect(check({ card: '4111' }, { dependentRequired: { card: ['cvv'] } })).toEqual(['/cvv dependentRequired']);
+      expect(check({ cvv: '123' }, { dependentRequired: { card: ['cvv'] } })).toEqual([]);
+      expect(check({ card: 1 }, { dependentSchemas: { card: { required: ['billing'] } } })).toEqual(['/billing required']);
+    });
+
+    test('inherited Object.prototype members are not treated as properties', () => {
+      expect(check({}, { properties: { constructor: { type: 'string' } as JsonSchema } })).toEqual([]);
+      expect(check({}, { required: ['toString'] })).toEqual(['/toString required']);
+      expect(check(JSON.parse('{"constructor": 1}'), { properties: { id: {} }, additionalProperties: false }))
+        .toEqual(['/constructor additionalProperties']);
+      expect(check({ hasOwnProperty: 1 }, { dependentRequired: { hasOwnProperty: ['valueOf'] } })).toEqual(['/valueOf dependentRequired']);
+    });
+  });
+
+  test.describe('combinators', () => {
+    test('allOf reports violations of every subschema', () => {
+      expect(check(15, { allOf: [{ maximum: 10 }, { multipleOf: 2 }] })).toEqual([' maximum', ' multipleOf']);
+    });
+
+    test('anyOf needs one match', () => {
+      const schema: JsonSchema = { anyOf: [{ type: 'string' }, { type: 'integer' }] };
+      expect(check(1, schema)).toEqual([]);
+      expect(check(1.5, schema)).toEqual([' anyOf']);
+    });
+
+    test('oneOf needs exactly one match', () => {
+      const schema: JsonSchema = { oneOf: [{ type: 'integer' }, { minimum: 0 }] };
+      expect(check(-1, schema)).toEqual([]);
+      expect(check(1, schema)).toEqual([' oneOf']);
+      expect(check(-1.5, schema)).toEqual([' oneOf']);
+      expect(JsonSchemaValidator.validate(1, schema)[0].message).toBe('matches options 1, 2, expected exactly one');
+    });
+
+    test('not', () => {
+      expect(check('a', { not: { type: 'number' } })).toEqual([]);
+      expect(check(1, { not: { type: 'number' } })).toEqual([' not']);
+    });
+
+    test('if, then and else', () => {
+      const schema: JsonSchema = {
+        if: { properties: { country: { const: 'US' } } },
+        then: { required: ['state'] },
+        else: { required: ['region'] },
+      };
+      expect(check({ country: 'US', state: 'NY' }, schema)).toEqual([]);
+      expect(check({ country: 'US' }, schema)).toEqual(['/state required']);
+      expect(check({ country: 'DE' }, schema)).toEqual(['/region required']);
+    });
+  });
+
+  test.describe('$ref', () => {
+    test('resolves $defs, definitions and $anchor', () => {
+      const schema: JsonSchema = {
+        $defs: { id: { type: 'integer' }, email: { $anchor: 'email', format: 'email' } },
+        definitions: { name: { type: 'string' } },
+        properties: {
+          id: { $ref: '#/$defs/id' },
+          name: { $ref: '#/definitions/name' },
+          email: { $ref: '#email' },
+        },
+      };
+      expect(check({ id: 1, name: 'a', email: 'a@b.co' }, schema)).toEqual([]);
+      expect(check({ id: '1', name: 1, email: 'no' }, schema)).toEqual(['/id type', '/name type', '/email format']);
+    });
+
+    test('escapes JSON pointer tokens in references and paths', () => {
+      const schema: JsonSchema = {
+        $defs: { 'a/b': { type: 'integer' } },
+        properties: { 'x/y~z': { $ref: '#/$defs/a~1b' } },
+      };
+      expect(check({ 'x/y~z': 'no' }, schema)).toEqual(['/x~1y~0z type']);
+    });
+
+    test('resolves relative references against $id and across schemas', () => {
+      const money: JsonSchema = {
+        $id: 'https://schemas.example.com/common/money.json',
+        type: 'object',
+        properties: { amount: { type: 'number' }, currency: { $ref: '#/$defs/currency' } },
+        required: ['amount', 'currency'],
+        $defs: { currency: { type: 'string', pattern: '^[A-Z]{3}$' } },
+      };
+      const order: JsonSchema = {
+        $id: 'https://schemas.example.com/orders/order.json',
+        properties: {
+          total: { $ref: '../common/money.json' },
+          lines: { type: 'array', items: { $ref: 'line.json' } },
+        },
+        $defs: {
+          line: {
+            $id: 'line.json',
+            properties: { price: { $ref: '/common/money.json' }, sku: { $ref: '#sku' } },
+            $defs: { sku: { $anchor: 'sku', type: 'string', minLength: 3 } },
+          },
+        },
+      };
+
+      const valid = { total: { amount: 10, currency: 'USD' }, lines: [{ price: { amount: 10, currency: 'USD' }, sku: 'ABC' }] };
+      expect(check(valid, order, { schemas: [money] })).toEqual([]);
+
+      const invalid = { total: { amount: '10', currency: 'usd' }, lines: [{ price: {}, sku: 'A' }] };
+      expect(check(invalid, order, { schemas: [money] })).toEqual([
+        '/total/amount type',
+        '/total/currency pattern',
+        '/lines/0/price/amount required',
+        '/lines/0/price/currency required',
+        '/lines/0/sku minLength',
+      ]);
+    });
+
+    test('reports references it cannot resolve', () => {
+      expect(check(1, { $ref: 'https://schemas.example.com/missing.json' })).toEqual([' $ref']);
+      expect(check(1, { $ref: '#/$defs/missing' })).toEqual([' $ref']);
+    });
+
+    test('follows recursive schemas to any depth', () => {
+      const tree: JsonSchema = {
+        type: 'object',
+        properties: { name: { type: 'string' }, children: { type: 'array', items: { $ref: '#' } } },
+        required: ['name'],
+      };
+      const value = { name: 'root', children: [{ name: 'a', children: [{ name: 1 }, {}] }] };
+      expect(check(value, tree)).toEqual(['/children/0/children/0/name type', '/children/0/children/1/name required']);
+    });
+
+    test('stops on references that loop without descending', () => {
+      expect(check(1, { $defs: { a: { $ref: '#/$defs/b' }, b: { $ref: '#/$defs/a' } }, $ref: '#/$defs/a' })).toEqual([]);
+    });
+  });
+
+  test('reports every violation of a document with its pointer', () => {
+    const schema: JsonSchema = {
+      type: 'object',
+      properties: {
+        id: { type: 'integer', minimum: 1 },
+        email: { type: 'string', format: 'email' },
+        createdAt: { type: 'string', format: 'date-time' },
+        status: { enum: ['open', 'closed'] },
+        tags: { type: 'array', items: { type: 'string' }, uniqueItems: true },
+        address: {
+          type: 'object',
+          properties: { zip: { type: 'string', pattern: '^\\d{5}$' } },
+          required: ['city'],
+          additionalProperties: false,
+        },
+      },
+      required: ['id', 'email', 'total'],
+    };
+    const value = {
+      id: 0,
+      email: 'nope',
+      createdAt: '2024-02-30T10:00:00Z',
+      status: 'pending',
+      tags: ['a', 2, 'a'],
+      address: { zip: '123', country: 'US' },
+    };
+
+    const violations = JsonSchemaValidator.validate(value, schema);
+
+    expect(violations.map(violation => `${violation.path} ${violation.keyword}`)).toEqual([
+      '/total required',
+      '/id minimum',
+      '/email format',
+      '/createdAt format',
+      '/status enum',
+      '/tags/1 type',
+      '/tags/2 uniqueItems',
+      '/address/city required',
+      '/address/zip pattern',
+      '/address/country additionalProperties',
+    ]);
+    expect(JsonSchemaValidator.formatViolations(violations.slice(0, 2))).toBe(
+      '  /total: missing required property "total"\n  /id: 0 is less than 1'
+    );
+  });
+});
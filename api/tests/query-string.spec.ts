@@ -0,0 +1,44 @@
+import { test, expect } from '../fixtures/ApiFixtures';
+import { QueryString } from '../client/QueryString';
+
+test.describe('QueryString', () => {
+  test('serialises scalars and skips null and undefined', () => {
+    expect(QueryString.stringify({ q: 'a b&c', page: 2, active: true, none: null, missing: undefined }))
+      .toBe('q=a%20b%26c&page=2&active=true');
+    expect(QueryString.stringify({ since: new Date('2024-01-02T03:04:05.000Z') }))
+      .toBe('since=2024-01-02T03%3A04%3A05.000Z');
+  });
+
+  test('serialises arrays in every format', () => {
+    const params = { tag: ['a', 'b'] };
+
+    expect(QueryString.stringify(params)).toBe('tag=a&tag=b');
+    expect(QueryString.stringify(params, { arrayFormat: 'comma' })).toBe('tag=a,b');
+    expect(QueryString.stringify(params, { arrayFormat: 'brackets' })).toBe('tag[]=a&tag[]=b');
+    expect(QueryString.stringify(params, { arrayFormat: 'indices' })).toBe('tag[0]=a&tag[1]=b');
+    expect(QueryString.stringify({ tag: [] })).toBe('');
+  });
+
+  test('serialises nested objects with bracket keys', () => {
+    expect(QueryString.stringify({ filter: { price: { min: 10, max: null }, brand: ['x', 'y'] } }))
+      .toBe('filter[price][min]=10&filter[brand]=x&filter[brand]=y');
+    expect(QueryString.stringify({ sort: [{ field: 'price' }] }))
+      .toBe('sort[0][field]=price');
+  });
+
+  test('appends to URLs with an existing query or fragment', () => {
+    expect(QueryString.appendToUrl('/api/products', { page: 1 })).toBe('/api/products?page=1');
+    expect(QueryString.appendToUrl('/api/products?sort=asc', { page: 1 })).toBe('/api/products?sort=asc&page=1');
+    expect(QueryString.appendToUrl('/api/products?', { page: 1 })).toBe('/api/products?page=1');
+    expect(QueryString.appendToUrl('/docs#top', { v: 2 })).toBe('/docs?v=2#top');
+    expect(QueryString.appendToUrl('/api/products', {})).toBe('/api/products');
+  });
+
+  test('encodes path segments once', () => {
+    expect(QueryString.encodePath('/api/products/a b')).toBe('/api/products/a%20b');
+    expect(QueryString.encodePath('/api/products/a%20b')).toBe('/api/products/a%20b');
+    expect(QueryString.encodePath('https://shop.test/collections/søk/products.json?q=a b'))
+      .toBe('https://shop.test/collections/s%C3%B8k/products.json?q=a b');
+    expect(QueryString.encodePath('/users/me@example.com:1')).toBe('/users/me@example.com:1');
+  });
+});
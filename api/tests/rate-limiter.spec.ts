@@ -0,0 +1,56 @@
+import { test, expect } from '../fixtures/ApiFixtures';
+import { RateLimiter } from '../client/RateLimiter';
+
+test.describe('RateLimiter', () => {
+  test.afterEach(() => {
+    RateLimiter.reset();
+  });
+
+  test('picks the most specific host rule and shares limiters per host', () => {
+    const limits = { 'example.com': { requestsPerSecond: 5 }, 'api.example.com': { requestsPerSecond: 1 }, '*': { maxConcurrent: 2 } };
+
+    const api = RateLimiter.forUrl('https://api.example.com/orders', limits);
+    expect(api).not.toBeNull();
+    expect(RateLimiter.forUrl('https://api.example.com/products', limits)).toBe(api);
+
+    RateLimiter.forUrl('https://shop.example.com/', limits);
+    RateLimiter.forUrl('https://other.test/', limits);
+    expect(RateLimiter.getStats().map(stats => stats.host)).toEqual(['api.example.com', 'shop.example.com', 'other.test']);
+
+    expect(RateLimiter.forUrl('https://unlimited.test/', { 'example.com': { requestsPerSecond: 1 } })).toBeNull();
+    expect(RateLimiter.forUrl('not a url', limits)).toBeNull();
+  });
+
+  test('lets a burst through and paces the rest', async () => {
+    const limiter = new RateLimiter('paced.test', { requestsPerSecond: 20, burst: 2 });
+
+    const waits: number[] = [];
+    for (let i = 0; i < 4; i++) {
+      const permit = await limiter.acquire();
+      waits.push(permit.waitMs);
+      permit.release();
+    }
+
+    expect(waits.slice(0, 2)).toEqual([0, 0]);
+    waits.slice(2).forEach(wait => expect(wait).toBeGreaterThanOrEqual(30));
+    expect(limiter.getStats()).toMatchObject({ requests: 4, delayedRequests: 2, active: 0, queued: 0 });
+  });
+
+  test('caps concurrency and serves waiting requests in order', async () => {
+    const limiter = new RateLimiter('concurrent.test', { maxConcurrent: 1 });
+    const order: number[] = [];
+
+    const first = await limiter.acquire();
+    const second = limiter.acquire().then(permit => { order.push(2); return permit; });
+    const third = limiter.acquire().then(permit => { order.push(3); return permit; });
+
+    expect(limiter.getStats()).toMatchObject({ active: 1, queued: 2 });
+    first.release();
+    first.release();
+    (await second).release();
+    (await third).release();
+
+    expect(order).toEqual([2, 3]);
+    expect(limiter.getStats()).toMatchObject({ active: 0, queued: 0 });
+  });
+});
@@ -0,0 +1,115 @@
+import { test, expect } from '../fixtures/ApiFixtures';
+import type { ApiResponse } from '../client/ApiClient';
+import type { ApiRequest } from '../client/ApiMiddleware';
+import { ApiStatusError } from '../client/ApiStatusError';
+import { ApiRetry, RetryPolicy } from '../client/RetryPolicy';
+
+const POLICY: RetryPolicy = { maxRetries: 2, delay: 1, jitter: 0 };
+
+function apiRequest(overrides: Partial<ApiRequest> = {}): ApiRequest {
+  return {
+    method: 'GET',
+    endpoint: '/api/orders',
+    url: 'http://127.0.0.1/api/orders',
+    headers: {},
+    responseType: 'auto',
+    timeout: 1000,
+    failOnStatusCode: true,
+    retry: POLICY,
+    rateLimit: false,
+    metadata: {},
+    ...overrides,
+  };
+}
+
+/**
+ * Fake transport answering with the given statuses (or errors) in order, failing on
+ * status codes the way ApiClient does
+ */
+function transport(outcomes: Array<number | Error>, headers: Record<string, string> = {}) {
+  const sent: ApiRequest[] = [];
+  const send = async (request: ApiRequest): Promise<ApiResponse> => {
+    const outcome = outcomes[sent.length];
+    sent.push(request);
+    if (outcome instanceof Error) throw outcome;
+
+    ApiStatusError.throwIfFailed(request, outcome, `Status ${outcome}`);
+    return { status: outcome, statusText: `Status ${outcome}`, headers, body: {}, contentType: 'application/json' } as ApiResponse;
+  };
+  return { sent, send };
+}
+
+test.describe('ApiRetry', () => {
+  test('retries retryable statuses and records each retried attempt', async () => {
+    const { sent, send } = transport([503, 502, 200]);
+
+    const response = await ApiRetry.execute(apiRequest(), send, POLICY);
+
+    expect(response.status).toBe(200);
+    expect(response.retries).toEqual([
+      { attempt: 1, status: 503, delay: 1 },
+      { attempt: 2, status: 502, delay: 2 },
+    ]);
+    expect(sent.map(request => request.failOnStatusCode)).toEqual([false, false, true]);
+  });
+
+  test('throws ApiStatusError once retries are exhausted', async () => {
+    const { sent, send } = transport([503, 503, 503]);
+
+    const error = await ApiRetry.execute(apiRequest(), send, POLICY).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ApiStatusError);
+    expect(error.status).toBe(503);
+    expect(sent).toHaveLength(3);
+  });
+
+  test('throws ApiStatusError for a non-retryable error status on an early attempt', async () => {
+    const { sent, send } = transport([404]);
+
+    const error = await ApiRetry.execute(apiRequest(), send, POLICY).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ApiStatusError);
+    expect(error.message).toBe('GET http://127.0.0.1/api/orders failed: 404 Status 404');
+    expect(sent).toHaveLength(1);
+  });
+
+  test('returns error statuses when failOnStatusCode is false', async () => {
+    const { send } = transport([503, 404]);
+
+    const response = await ApiRetry.execute(apiRequest({ failOnStatusCode: false }), send, POLICY);
+
+    expect(response.status).toBe(404);
+    expect(response.retries).toHaveLength(1);
+  });
+
+  test('retries network errors but not other errors', async () => {
+    const retried = transport([new Error('read ECONNRESET'), new Error('Timeout 1000ms exceeded'), 200]);
+    expect((await ApiRetry.execute(apiRequest(), retried.send, POLICY)).retries).toEqual([
+      { attempt: 1, error: 'read ECONNRESET', delay: 1 },
+      { attempt: 2, error: 'Timeout 1000ms exceeded', delay: 2 },
+    ]);
+
+    const failed = transport([new Error('Invalid URL')]);
+    await expect(ApiRetry.execute(apiRequest(), failed.send, POLICY)).rejects.toThrow('Invalid URL');
+    expect(failed.sent).toHaveLength(1);
+  });
+
+  test('retries POST only with an idempotency key', async () => {
+    const plain = transport([503]);
+    const response = await ApiRetry.execute(apiRequest({ method: 'POST', failOnStatusCode: false }), plain.send, POLICY);
+    expect(response.status).toBe(503);
+    expect(plain.sent).toHaveLength(1);
+
+    const keyed = transport([503, 201]);
+    const request = apiRequest({ method: 'POST', headers: { 'idempotency-key': 'order-1' } });
+    expect((await ApiRetry.execute(request, keyed.send, POLICY)).status).toBe(201);
+  });
+
+  test('waits for Retry-After instead of the backoff delay', async () => {
+    const { send } = transport([429, 200], { 'retry-after': '0' });
+
+    const response = await ApiRetry.execute(apiRequest(), send, { ...POLICY, delay: 5000 });
+
+    expect(response.retries).toEqual([{ attempt: 1, status: 429, delay: 0 }]);
+  });
+});
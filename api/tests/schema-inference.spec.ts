@@ -0,0 +1,74 @@
+import { test, expect } from '../fixtures/ApiFixtures';
+import type { ApiCall, ApiCaptureFile } from '../../utils/ApiCapture';
+import { JsonSchemaValidator } from '../helpers/JsonSchemaValidator';
+import { SchemaInference } from '../../utils/SchemaInference';
+
+function capture(calls: Array<Partial<ApiCall>>): ApiCaptureFile {
+  return {
+    testName: 'inference',
+    timestamp: new Date(0).toISOString(),
+    totalCalls: calls.length,
+    methodSummary: {},
+    apiCalls: calls.map((call, index) => ({ method: 'GET', url: '', headers: {}, status: 200, timestamp: index, ...call })),
+  };
+}
+
+test.describe('SchemaInference', () => {
+  test('infers types, required fields and array items', () => {
+    expect(SchemaInference.inferValue({ id: 1, price: 9.5, tags: ['a'], vendor: null, empty: [] })).toEqual({
+      type: 'object',
+      properties: {
+        id: { type: 'integer' },
+        price: { type: 'number' },
+        tags: { type: 'array', items: { type: 'string' } },
+        vendor: { type: 'null' },
+        empty: { type: 'array' },
+      },
+      required: ['empty', 'id', 'price', 'tags', 'vendor'],
+    });
+  });
+
+  test('merges samples into a schema that accepts all of them', () => {
+    const merged = SchemaInference.merge(
+      SchemaInference.inferValue({ id: 1, title: 'A', compare_at: null }),
+      SchemaInference.inferValue({ id: 1.5, compare_at: '10.00' })
+    );
+
+    expect(merged).toEqual({
+      type: 'object',
+      properties: {
+        id: { type: 'number' },
+        title: { type: 'string' },
+        compare_at: { anyOf: [{ type: 'null' }, { type: 'string' }] },
+      },
+      required: ['compare_at', 'id'],
+    });
+  });
+
+  test('groups calls to the same endpoint regardless of IDs and handles', () => {
+    const inferred = SchemaInference.inferFromCaptures([capture([
+      { url: 'https://api.cdn.yotpo.com/v3/storefront/store/abc/product/10011597242667/ratings', responseBody: { rating: 4 } },
+      { url: 'https://api.cdn.yotpo.com/v3/storefront/store/abc/product/10017093353771/ratings?x=1', responseBody: { rating: 4.5 } },
+      { url: 'https://shop.test/products/shampoo.js', responseBody: { id: 1, handle: 'shampoo' } },
+      { url: 'https://shop.test/products/conditioner.js', responseBody: { id: 2, handle: 'conditioner' } },
+      { url: 'https://shop.test/products/missing.js', status: 404, responseBody: { error: 'Not found' } },
+    ])]);
+
+    expect(inferred.map(({ endpoint, samples }) => ({ endpoint, samples }))).toEqual([
+      { endpoint: 'GET api.cdn.yotpo.com/v3/storefront/store/abc/product/{resourceId}/ratings', samples: 2 },
+      { endpoint: 'GET shop.test/products/{productHandle}.js', samples: 2 },
+    ]);
+    expect(SchemaInference.getSchemaFileName(inferred[1].endpoint)).toBe('get-shop-test-products-producthandle-js');
+  });
+
+  test('produces schemas the validator accepts the samples against', () => {
+    const samples = [{ id: 1, items: [{ sku: 'A', quantity: 1 }] }, { id: 2, items: [], note: 'gift' }];
+    const [inferred] = SchemaInference.inferFromCaptures([capture(samples.map(responseBody => ({
+      url: 'https://shop.test/cart.js',
+      responseBody,
+    })))]);
+
+    samples.forEach(sample => expect(JsonSchemaValidator.validate(sample, inferred.schema)).toEqual([]));
+    expect(JsonSchemaValidator.validate({ items: [] }, inferred.schema).map(violation => violation.keyword)).toEqual(['required']);
+  });
+});
@@ -0,0 +1,168 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import type { BrowserContext, Cookie } from '@playwright/test';
+import { test, expect } from '../fixtures/ApiFixtures';
+import { ApiClient } from '../client/ApiClient';
+import { ShopifyAjaxError, ShopifyStorefrontClient } from '../client/ShopifyStorefrontClient';
+
+const SOLD_OUT_VARIANT = 999;
+
+/**
+ * Local storefront serving the Ajax cart, product, collection and search endpoints.
+ * The first cart write sets the cart cookie; later requests are expected to send it back.
+ */
+function startStorefront() {
+  const requests: Array<{ method: string; url: string; cookie?: string; body: any }> = [];
+  let items: Array<{ key: string; variant_id: number; quantity: number }> = [];
+  let note: string | null = null;
+
+  const cart = () => ({
+    token: 'c1',
+    note,
+    item_count: items.reduce((count, item) => count + item.quantity, 0),
+    items,
+  });
+
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => (raw += chunk));
+    req.on('end', () => {
+      const body = raw ? JSON.parse(raw) : undefined;
+      const url = new URL(req.url!, 'http://localhost');
+      requests.push({ method: req.method!, url: req.url!, cookie: req.headers.cookie, body });
+
+      const reply = (status: number, payload: object, headers: Record<string, string | string[]> = {}) => {
+        res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+        res.end(JSON.stringify(payload));
+      };
+
+      switch (url.pathname) {
+        case '/cart.js':
+          return reply(200, cart());
+        case '/cart/add.js': {
+          if (body.items.some((item: { id: number }) => item.id === SOLD_OUT_VARIANT)) {
+            return reply(422, { status: 422, message: 'Cart Error', description: 'All 1 Shampoo are in your cart.' });
+          }
+          const added = body.items.map((item: { id: number; quantity: number }) => ({
+            key: `${item.id}:abc`,
+            variant_id: item.id,
+            quantity: item.quantity ?? 1,
+          }));
+          items = [...items, ...added];
+          return reply(200, { items: added }, { 'Set-Cookie': ['cart=c1; Path=/', '_shopify_y=visitor; Path=/'] });
+        }
+        case '/cart/change.js':
+          items = items
+            .map((item, index) => item.key === body.id || index + 1 === body.line ? { ...item, quantity: body.quantity } : item)
+            .filter(item => item.quantity > 0);
+          return reply(200, cart());
+        case '/cart/update.js':
+          items = items.map(item => ({ ...item, quantity: body.updates?.[item.variant_id] ?? item.quantity }));
+          note = body.note ?? note;
+          return reply(200, cart());
+        case '/cart/clear.js':
+          items = [];
+          return reply(200, cart());
+        case '/products/shampoo.js':
+          return reply(200, { id: 1, handle: 'shampoo', variants: [{ id: 11, price: 2500 }] });
+        case '/collections/hair/products.json':
+          return reply(200, { products: [{ id: 1, handle: 'shampoo' }] });
+        case '/search/suggest.json':
+          return reply(200, { resources: { results: { products: [{ id: 1, handle: 'shampoo' }] } } });
+        default:
+          return reply(404, { status: 404, message: 'Not Found' });
+      }
+    });
+  });
+
+  return { server, requests, baseUrl: () => `http://127.0.0.1:${(server.address() as AddressInfo).port}` };
+}
+
+test.describe('ShopifyStorefrontClient', () => {
+  let shop: ReturnType<typeof startStorefront>;
+  let storefront: ShopifyStorefrontClient;
+
+  test.beforeEach(async ({ apiRequest }) => {
+    shop = startStorefront();
+    await new Promise<void>(resolve => shop.server.listen(0, '127.0.0.1', resolve));
+    storefront = new ShopifyStorefrontClient(new ApiClient(apiRequest, shop.baseUrl()));
+  });
+
+  test.afterEach(async () => {
+    await new Promise(resolve => shop.server.close(resolve));
+  });
+
+  test('adds, changes, updates and clears cart items', async () => {
+    const line = await storefront.addItem(11, 2);
+    expect(line).toEqual({ key: '11:abc', variant_id: 11, quantity: 2 });
+
+    await storefront.addItems([{ id: 12 }, { id: 13, quantity: 3 }]);
+    expect((await storefront.changeLine('11:abc', 1)).item_count).toBe(5);
+    expect((await storefront.changeLine(2, 0)).items.map(item => item.variant_id)).toEqual([11, 13]);
+    expect((await storefront.updateCart({ updates: { 13: 1 }, note: 'Gift' }))).toMatchObject({ note: 'Gift', item_count: 2 });
+    expect((await storefront.getCart()).item_count).toBe(2);
+    expect((await storefront.clearCart()).items).toEqual([]);
+
+    expect(shop.requests.map(request => `${request.method} ${request.url}`)).toEqual([
+      'POST /cart/add.js',
+      'POST /cart/add.js',
+      'POST /cart/change.js',
+      'POST /cart/change.js',
+      'POST /cart/update.js',
+      'GET /cart.js',
+      'POST /cart/clear.js',
+    ]);
+    expect(shop.requests[0].body).toEqual({ items: [{ id: 11, quantity: 2 }] });
+    expect(shop.requests[2].body).toEqual({ id: '11:abc', quantity: 1 });
+    expect(shop.requests[3].body).toEqual({ line: 2, quantity: 0 });
+    // The cart cookie from the first add is sent with every later request
+    shop.requests.slice(1).forEach(request => expect(request.cookie).toContain('cart=c1'));
+  });
+
+  test('throws ShopifyAjaxError with the Ajax API description', async () => {
+    const error = await storefront.addItem(SOLD_OUT_VARIANT).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ShopifyAjaxError);
+    expect(error.status).toBe(422);
+    expect(error.description).toBe('All 1 Shampoo are in your cart.');
+    expect(error.message).toBe('Shopify /cart/add.js failed with 422: All 1 Shampoo are in your cart.');
+
+    await expect(storefront.getProduct('missing')).rejects.toThrow('Shopify /products/missing.js failed with 404: Not Found');
+  });
+
+  test('reads products, collections and search suggestions', async () => {
+    expect((await storefront.getProduct('shampoo')).variants[0].price).toBe(2500);
+    expect(await storefront.getCollectionProducts('hair', { limit: 10, page: 2 })).toEqual([{ id: 1, handle: 'shampoo' }]);
+    expect((await storefront.searchSuggest('sham', { types: ['product', 'collection'], limit: 4 })).resources.results.products)
+      .toEqual([{ id: 1, handle: 'shampoo' }]);
+
+    expect(shop.requests.map(request => request.url)).toEqual([
+      '/products/shampoo.js',
+      '/collections/hair/products.json?limit=10&page=2',
+      '/search/suggest.json?q=sham&resources[type]=product%2Ccollection&resources[limit]=4',
+    ]);
+  });
+
+  test('shares the cart cookie with a browser context and back', async ({ apiRequest }) => {
+    await storefront.addItem(11);
+
+    const added: Cookie[] = [];
+    const browser = {
+      addCookies: async (cookies: Cookie[]) => { added.push(...cookies); },
+      cookies: async () => [
+        { name: 'cart', value: 'browser-cart' },
+        { name: 'cart_sig', value: 'sig' },
+        { name: '_shopify_y', value: 'visitor' },
+      ],
+    } as unknown as BrowserContext;
+
+    await storefront.shareCartWith(browser);
+    expect(added.map(cookie => `${cookie.name}=${cookie.value}`)).toEqual(['cart=c1']);
+
+    const fromBrowser = new ShopifyStorefrontClient(new ApiClient(apiRequest, shop.baseUrl()));
+    await fromBrowser.useBrowserCart(browser);
+    await fromBrowser.getCart();
+    expect(shop.requests[shop.requests.length - 1].cookie).toContain('cart=browser-cart; cart_sig=sig');
+    expect(shop.requests[shop.requests.length - 1].cookie).not.toContain('_shopify_y');
+  });
+});
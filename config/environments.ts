@@ -3,6 +3,31 @@
  */
 export type Environment = 'dev' | 'staging' | 'prod' | 'local';
 
+/**
+ * Client-side API rate limit for a host
+ */
+export interface HostRateLimit {
+  /** Sustained request rate (token bucket refill) */
+  requestsPerSecond?: number;
+  /** Requests allowed at once before pacing starts (default: requestsPerSecond) */
+  burst?: number;
+  /** Requests in flight at the same time */
+  maxConcurrent?: number;
+}
+
+/**
+ * Shopify storefront limits (Ajax and Storefront API throttle per client IP)
+ */
+const SHOPIFY_STOREFRONT_LIMIT: HostRateLimit = { requestsPerSecond: 2, burst: 4, maxConcurrent: 2 };
+
+/**
+ * Rate limits shared by every environment (override per environment where a host differs)
+ */
+const DEFAULT_RATE_LIMITS: Record<string, HostRateLimit> = {
+  'myformulai.com': SHOPIFY_STOREFRONT_LIMIT,
+  'myshopify.com': SHOPIFY_STOREFRONT_LIMIT,
+};
+
 /**
  * Environment configuration interface
  */
@@ -17,6 +42,8 @@ export interface EnvironmentConfig {
   screenshot: boolean | 'only-on-failure';
   video: boolean | 'retain-on-failure' | 'on-first-retry';
   trace: boolean | 'on-first-retry' | 'retain-on-failure' | 'on';
+  /** ApiClient rate limits keyed by host (subdomains included, '*' for any host) */
+  rateLimits?: Record<string, HostRateLimit>;
 }
 
 /**
@@ -34,6 +61,7 @@ export const environments: Record<Environment, EnvironmentConfig> = {
     screenshot: true,
     video: true,
     trace: true,
+    rateLimits: { ...DEFAULT_RATE_LIMITS },
   },
   dev: {
     name: 'dev',
@@ -46,6 +74,7 @@ export const environments: Record<Environment, EnvironmentConfig> = {
     screenshot: true,
     video: false,
     trace: true,
+    rateLimits: { ...DEFAULT_RATE_LIMITS },
   },
   staging: {
     name: 'staging',
@@ -58,6 +87,7 @@ export const environments: Record<Environment, EnvironmentConfig> = {
     screenshot: true,
     video: true,
     trace: true,
+    rateLimits: { ...DEFAULT_RATE_LIMITS },
   },
   prod: {
     name: 'prod',
@@ -70,5 +100,6 @@ export const environments: Record<Environment, EnvironmentConfig> = {
     screenshot: true,
     video: true,
     trace: true,
+    rateLimits: { ...DEFAULT_RATE_LIMITS },
   },
 };
@@ -1,6 +1,8 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { MCPContext, TestMetadata, TestStep, UserFlow, APIContext, MCPConfig } from './MCPTypes';
+import { Redactor } from '../utils/Redactor';
+import type { ApiReproduction } from '../utils/RequestSnippet';
 
 /**
  * MCP Context Manager
@@ -21,6 +23,7 @@ export class MCPContextManager {
       captureApiCalls: true,
       capturePerformance: true,
       maxContextSize: 1000,
+      redactor: Redactor.fromEnv(),
       ...config,
     };
 
@@ -166,14 +169,45 @@ export class MCPContextManager {
   addAPICall(apiContext: APIContext): void {
     if (!this.config.enabled || !this.config.captureApiCalls) return;
 
-    this.context.apiCalls.push(apiContext);
+    const redactedContext = this.redactAPIContext(apiContext);
+    this.context.apiCalls.push(redactedContext);
     
     // Track API response time
-    if (apiContext.duration) {
-      this.context.performance.apiResponseTimes[apiContext.url] = apiContext.duration;
+    if (redactedContext.duration) {
+      this.context.performance.apiResponseTimes[redactedContext.url] = redactedContext.duration;
     }
   }
 
+  /**
+   * Add curl/fetch snippets of a failed API call
+   */
+  addApiReproduction(reproduction: ApiReproduction): void {
+    if (!this.config.enabled || !this.config.captureApiCalls) return;
+
+    if (!this.context.apiReproductions) {
+      this.context.apiReproductions = [];
+    }
+    this.context.apiReproductions.push(reproduction);
+  }
+
+  /**
+   * Mask secrets and PII in an API call before it is stored
+   */
+  private redactAPIContext(apiContext: APIContext): APIContext {
+    const redactor = this.config.redactor;
+    if (!redactor) return apiContext;
+
+    return {
+      ...apiContext,
+      requestId: redactor.redactUrl(apiContext.requestId),
+      url: redactor.redactUrl(apiContext.url),
+      requestHeaders: apiContext.requestHeaders && redactor.redactHeaders(apiContext.requestHeaders),
+      requestBody: apiContext.requestBody !== undefined ? redactor.redactBody(apiContext.requestBody, apiContext.url) : undefined,
+      responseHeaders: apiContext.responseHeaders && redactor.redactHeaders(apiContext.responseHeaders),
+      responseBody: apiContext.responseBody !== undefined ? redactor.redactBody(apiContext.responseBody, apiContext.url) : undefined,
+    };
+  }
+
   /**
    * Add assertion result
    */
@@ -252,6 +286,9 @@ export class MCPContextManager {
       const endTime = new Date(this.context.metadata.completedAt || Date.now()).getTime();
       this.context.performance.totalDuration = endTime - startTime;
 
+      // Record which redaction rules were applied
+      this.context.redaction = this.config.redactor?.describe();
+
       // Save to file
       fs.writeFileSync(
         this.contextFilePath,
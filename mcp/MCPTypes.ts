@@ -2,6 +2,8 @@
  * MCP (Model Context Protocol) Type Definitions
  * Defines interfaces for test context, user flows, and metadata
  */
+import type { Redactor, RedactionSummary } from '../utils/Redactor';
+import type { ApiReproduction } from '../utils/RequestSnippet';
 
 /**
  * Test execution step
@@ -74,6 +76,8 @@ export interface MCPContext {
   userFlow?: UserFlow;
   steps: TestStep[];
   apiCalls: APIContext[];
+  /** curl/fetch snippets for failed API calls (already redacted) */
+  apiReproductions?: ApiReproduction[];
   assertions: Array<{
     description: string;
     status: 'passed' | 'failed';
@@ -93,6 +97,7 @@ export interface MCPContext {
     totalDuration: number;
   };
   customData?: Record<string, any>;
+  redaction?: RedactionSummary;
 }
 
 /**
@@ -105,4 +110,5 @@ export interface MCPConfig {
   captureApiCalls: boolean;
   capturePerformance: boolean;
   maxContextSize: number; // Max steps to store
+  redactor: Redactor | null; // Applied to API calls before they enter the context
 }
@@ -0,0 +1,284 @@
+#!/usr/bin/env node
+
+/**
+ * Newman Collection Generator Script
+ *
+ * Turns apis-testcases capture files into a Postman v2.1 collection
+ * that can be run with newman/runner.js.
+ *
+ * Features:
+ * - Requests grouped into folders by host and path
+ * - Base URLs extracted into a Postman environment
+ * - Duplicate requests (same method, URL and body) collapsed
+ * - Status-code test generated from the recorded response
+ * - Host filter to skip third-party analytics traffic
+ */
+
+const path = require('path');
+const fs = require('fs');
+
+// Get command line arguments
+const args = process.argv.slice(2);
+const captureFiles = [];
+const hosts = [];
+let collectionName = null;
+let envName = null;
+
+// Parse arguments
+for (let i = 0; i < args.length; i++) {
+  const arg = args[i];
+  if (arg === '--name' || arg === '-n') {
+    collectionName = args[i + 1];
+    i++;
+  } else if (arg === '--env' || arg === '-e') {
+    envName = args[i + 1];
+    i++;
+  } else if (arg === '--host' || arg === '-h') {
+    hosts.push(args[i + 1]);
+    i++;
+  } else if (arg.startsWith('--name=')) {
+    collectionName = arg.split('=')[1];
+  } else if (arg.startsWith('--env=')) {
+    envName = arg.split('=')[1];
+  } else if (!arg.startsWith('-')) {
+    captureFiles.push(arg);
+  }
+}
+
+if (!collectionName) {
+  console.error('❌ Error: Collection name is required');
+  console.log('\nUsage:');
+  console.log('  npm run newman:generate -- --name <collection-name> [capture-files...] [options]');
+  console.log('\nOptions:');
+  console.log('  --name, -n <name>         Collection name (file: newman/collections/<name>.json)');
+  console.log('  --env, -e <name>          Environment name (default: <collection-name>)');
+  console.log('  --host, -h <host>         Only include requests to this host (repeatable)');
+  console.log('\nCapture files are resolved against apis-testcases/. All captures are used when none are given.');
+  console.log('\nExamples:');
+  console.log('  npm run newman:generate -- --name formulai-quiz --host myformulai.com');
+  console.log('  npm run newman:generate -- --name checkout my-capture.json --env staging');
+  process.exit(1);
+}
+
+envName = envName || collectionName;
+
+// Paths
+const capturesDir = path.join(process.cwd(), 'apis-testcases');
+const newmanDir = path.join(process.cwd(), 'newman');
+const collectionsDir = path.join(newmanDir, 'collections');
+const environmentsDir = path.join(newmanDir, 'environments');
+
+// Ensure directories exist
+[collectionsDir, environmentsDir].forEach(dir => {
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+});
+
+// Request headers that are set by the browser or carry session state
+const SKIPPED_HEADERS = [
+  'host', 'connection', 'content-length', 'cookie', 'authorization',
+  'user-agent', 'referer', 'origin', 'accept-encoding', 'accept-language',
+  'upgrade-insecure-requests', 'priority',
+];
+
+/**
+ * Resolve capture file paths (all captures when none given)
+ */
+function resolveCaptureFiles() {
+  if (captureFiles.length === 0) {
+    if (!fs.existsSync(capturesDir)) return [];
+    return fs.readdirSync(capturesDir)
+      .filter(file => file.endsWith('.json'))
+      .map(file => path.join(capturesDir, file));
+  }
+
+  return captureFiles.map(file => {
+    const candidates = [
+      path.isAbsolute(file) ? file : path.join(process.cwd(), file),
+      path.join(capturesDir, file),
+      path.join(capturesDir, `${file}.json`),
+    ];
+    const found = candidates.find(candidate => fs.existsSync(candidate));
+    if (!found) {
+      console.error(`❌ Error: Capture file not found: ${file}`);
+      process.exit(1);
+    }
+    return found;
+  });
+}
+
+/**
+ * Turn a host into a Postman variable name (myformulai.com -> baseUrl_myformulai_com)
+ */
+function hostVariable(host) {
+  return `baseUrl_${host.replace(/[^a-zA-Z0-9]/g, '_')}`;
+}
+
+/**
+ * Serialize a captured body back to text
+ */
+function bodyText(body) {
+  if (body === undefined || body === null) return undefined;
+  return typeof body === 'string' ? body : JSON.stringify(body, null, 2);
+}
+
+/**
+ * Build the Postman request body from a captured call
+ */
+function buildBody(call, contentType) {
+  const text = bodyText(call.postData);
+  if (text === undefined) return undefined;
+
+  if (contentType.includes('application/x-www-form-urlencoded')) {
+    const urlencoded = [];
+    new URLSearchParams(text).forEach((value, key) => urlencoded.push({ key, value, type: 'text' }));
+    return { mode: 'urlencoded', urlencoded };
+  }
+
+  const isJson = contentType.includes('json') || typeof call.postData === 'object';
+  return {
+    mode: 'raw',
+    raw: text,
+    options: { raw: { language: isJson ? 'json' : 'text' } },
+  };
+}
+
+/**
+ * Build a Postman item from a captured call
+ */
+function buildItem(call, url) {
+  const headers = Object.entries(call.headers || {})
+    .filter(([name, value]) => !SKIPPED_HEADERS.includes(name.toLowerCase()) &&
+      !name.startsWith(':') &&
+      !name.toLowerCase().startsWith('sec-') &&
+      !String(value).includes('[REDACTED]'))
+    .map(([key, value]) => ({ key, value: String(value) }));
+
+  const contentType = (headers.find(header => header.key.toLowerCase() === 'content-type') || {}).value || '';
+  const segments = url.pathname.split('/').filter(Boolean);
+  const query = [];
+  url.searchParams.forEach((value, key) => query.push({ key, value }));
+
+  const item = {
+    name: `${call.method} ${url.pathname}`,
+    request: {
+      method: call.method,
+      header: headers,
+      url: {
+        raw: `{{${hostVariable(url.host)}}}${url.pathname}${url.search}`,
+        host: [`{{${hostVariable(url.host)}}}`],
+        path: segments,
+        query,
+      },
+    },
+    event: [],
+  };
+
+  const body = buildBody(call, contentType);
+  if (body) {
+    item.request.body = body;
+  }
+
+  if (call.status) {
+    item.event.push({
+      listen: 'test',
+      script: {
+        type: 'text/javascript',
+        exec: [
+          `pm.test("Status code is ${call.status}", function () {`,
+          `  pm.response.to.have.status(${call.status});`,
+          '});',
+        ],
+      },
+    });
+  }
+
+  return item;
+}
+
+const files = resolveCaptureFiles();
+if (files.length === 0) {
+  console.error('❌ Error: No capture files found in apis-testcases/');
+  process.exit(1);
+}
+
+// host -> first path segment -> items
+const folders = new Map();
+const baseUrls = new Map();
+const seen = new Set();
+let requestCount = 0;
+
+files.forEach(file => {
+  let capture;
+  try {
+    capture = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  } catch (error) {
+    console.error(`❌ Error: Invalid capture file: ${file}`);
+    console.error(`   ${error.message}`);
+    process.exit(1);
+  }
+
+  console.log(`📄 Reading capture: ${path.basename(file)} (${(capture.apiCalls || []).length} calls)`);
+
+  (capture.apiCalls || []).forEach(call => {
+    let url;
+    try {
+      url = new URL(call.url);
+    } catch {
+      return;
+    }
+
+    if (!url.protocol.startsWith('http')) return;
+    if (hosts.length > 0 && !hosts.some(host => url.host === host || url.host.endsWith(`.${host}`))) return;
+
+    const key = `${call.method} ${url.host}${url.pathname}${url.search} ${bodyText(call.postData) || ''}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+
+    baseUrls.set(hostVariable(url.host), `${url.protocol}//${url.host}`);
+
+    const pathFolder = url.pathname.split('/').filter(Boolean)[0] || '(root)';
+    if (!folders.has(url.host)) folders.set(url.host, new Map());
+    const hostFolders = folders.get(url.host);
+    if (!hostFolders.has(pathFolder)) hostFolders.set(pathFolder, []);
+    hostFolders.get(pathFolder).push(buildItem(call, url));
+    requestCount++;
+  });
+});
+
+const collection = {
+  info: {
+    name: collectionName,
+    description: `Generated from ${files.length} apis-testcases capture(s) on ${new Date().toISOString()}`,
+    schema: 'https://schema.getpostman.com/json/collection/v2.1.0/collection.json',
+  },
+  item: Array.from(folders.entries()).map(([host, hostFolders]) => ({
+    name: host,
+    item: Array.from(hostFolders.entries()).map(([folder, items]) => ({
+      name: `/${folder === '(root)' ? '' : folder}`,
+      item: items,
+    })),
+  })),
+};
+
+const environment = {
+  name: envName,
+  values: Array.from(baseUrls.entries()).map(([key, value]) => ({
+    key,
+    value,
+    type: 'default',
+    enabled: true,
+  })),
+  _postman_variable_scope: 'environment',
+};
+
+const collectionFile = path.join(collectionsDir, `${collectionName}.json`);
+const environmentFile = path.join(environmentsDir, `${envName}.json`);
+
+fs.writeFileSync(collectionFile, JSON.stringify(collection, null, 2), 'utf-8');
+fs.writeFileSync(environmentFile, JSON.stringify(environment, null, 2), 'utf-8');
+
+console.log(`\n✅ Collection saved: ${requestCount} requests in ${folders.size} host folder(s) → ${collectionFile}`);
+console.log(`✅ Environment saved: ${baseUrls.size} base URL(s) → ${environmentFile}`);
+console.log(`\n💡 Run it with: npm run newman:run -- ${collectionName} --env ${envName}`);
@@ -26,6 +26,7 @@ if (fs.existsSync(collectionsDir)) {
   } else {
     console.log('  (No collections found)');
     console.log('  Export your Postman collection to: newman/collections/');
+    console.log('  Or generate one from captured traffic: npm run newman:generate -- --name <collection-name>');
   }
 } else {
   console.log('  (Collections directory not found)');
@@ -68,3 +69,4 @@ console.log('\n💡 Usage:');
 console.log('  npm run newman:run -- <collection-name> [--env <environment-name>]');
 console.log('  npm run newman:run:report -- <collection-name> [--env <environment-name>]');
 console.log('  npm run newman:run:all -- <collection-name> [--env <environment-name>]');
+console.log('  npm run newman:generate -- --name <collection-name> [--host <host>]');
@@ -0,0 +1,74 @@
+#!/usr/bin/env ts-node
+
+/**
+ * API Drift Script
+ *
+ * Compares two apis-testcases captures of the same test (e.g. yesterday vs today,
+ * staging vs prod) and writes a path-level drift report in JSON and HTML.
+ */
+
+import * as path from 'path';
+import { ApiDrift } from '../utils/ApiDrift';
+
+const args = process.argv.slice(2);
+const files: string[] = [];
+let outputDir: string | undefined;
+let latencyThresholdPct: number | undefined;
+let latencyMinDeltaMs: number | undefined;
+let failOnDrift = false;
+
+// Parse arguments
+for (let i = 0; i < args.length; i++) {
+  const arg = args[i];
+  if (arg === '--out' || arg === '-o') {
+    outputDir = path.resolve(process.cwd(), args[i + 1]);
+    i++;
+  } else if (arg === '--latency-threshold') {
+    latencyThresholdPct = parseInt(args[i + 1], 10);
+    i++;
+  } else if (arg === '--latency-min-delta') {
+    latencyMinDeltaMs = parseInt(args[i + 1], 10);
+    i++;
+  } else if (arg === '--fail-on-drift') {
+    failOnDrift = true;
+  } else if (!arg.startsWith('-')) {
+    files.push(arg);
+  }
+}
+
+if (files.length !== 2) {
+  console.error('❌ Error: Exactly two capture files are required');
+  console.log('\nUsage:');
+  console.log('  npm run capture:drift -- <base-capture> <current-capture> [options]');
+  console.log('\nOptions:');
+  console.log('  --out, -o <dir>             Output directory (default: reports/api-drift)');
+  console.log('  --latency-threshold <pct>   Flag median latency changes above this % (default: 50)');
+  console.log('  --latency-min-delta <ms>    Ignore latency changes below this many ms (default: 100)');
+  console.log('  --fail-on-drift             Exit with code 1 when any drift is found');
+  process.exit(1);
+}
+
+try {
+  const base = ApiDrift.loadCapture(files[0]);
+  const current = ApiDrift.loadCapture(files[1]);
+  const report = ApiDrift.compare(base, current, { latencyThresholdPct, latencyMinDeltaMs });
+
+  const baseName = `${path.basename(files[1], '.json')}-drift-${new Date().toISOString().replace(/[:.]/g, '-')}`;
+  const output = ApiDrift.save(report, baseName, outputDir);
+
+  console.log('\n📊 API Drift Summary:');
+  console.log(`   Added endpoints: ${report.summary.addedEndpoints}`);
+  console.log(`   Removed endpoints: ${report.summary.removedEndpoints}`);
+  console.log(`   Changed endpoints: ${report.summary.changedEndpoints}`);
+  console.log(`   Unchanged endpoints: ${report.summary.unchangedEndpoints}`);
+  console.log(`\n📄 JSON: ${output.json}`);
+  console.log(`📊 HTML: ${output.html}`);
+
+  if (failOnDrift && ApiDrift.hasDrift(report)) {
+    console.error('\n❌ API drift detected');
+    process.exit(1);
+  }
+} catch (error) {
+  console.error(`❌ Error: ${(error as Error).message}`);
+  process.exit(1);
+}
@@ -0,0 +1,48 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Capture Compaction Script
+ *
+ * Turns NDJSON capture streams (API_CAPTURE_STREAM=true) into the regular
+ * apis-testcases JSON summary format. Useful after a worker crashed before
+ * ApiCapture.saveApiCalls could run.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ApiCapture } from '../utils/ApiCapture';
+import { CaptureStreamWriter } from '../utils/CaptureStreamWriter';
+
+const args = process.argv.slice(2).filter(arg => !arg.startsWith('-'));
+
+if (process.argv.includes('--help')) {
+  console.log('Usage:');
+  console.log('  npm run capture:compact -- [stream-files...]');
+  console.log('\nAll .ndjson streams in apis-testcases/ are compacted when none are given.');
+  process.exit(0);
+}
+
+const streamFiles = args.length > 0
+  ? args.map(file => (fs.existsSync(file) ? file : path.join(ApiCapture.API_FOLDER, file)))
+  : (fs.existsSync(ApiCapture.API_FOLDER) ? fs.readdirSync(ApiCapture.API_FOLDER) : [])
+    .filter(file => file.endsWith('.ndjson'))
+    .map(file => path.join(ApiCapture.API_FOLDER, file));
+
+if (streamFiles.length === 0) {
+  console.log('📄 No capture streams found in apis-testcases/');
+  process.exit(0);
+}
+
+for (const streamFile of streamFiles) {
+  if (!fs.existsSync(streamFile)) {
+    console.error(`❌ Error: Stream file not found: ${streamFile}`);
+    process.exit(1);
+  }
+
+  const capture = CaptureStreamWriter.compact(streamFile);
+  const outputFile = streamFile.replace(/\.ndjson$/, '.json');
+  fs.writeFileSync(outputFile, JSON.stringify(capture, null, 2), 'utf-8');
+
+  const cappedNote = capture.capped ? ' (file cap reached, later calls dropped)' : '';
+  console.log(`✅ Compacted ${capture.totalCalls} calls${cappedNote} → ${path.basename(outputFile)}`);
+}
@@ -0,0 +1,89 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Endpoint Generation Script
+ *
+ * Scans apis-testcases captures for one host and writes a TypeScript module with
+ * parameterised endpoint definitions, response interfaces and a typed client,
+ * ready to be reviewed and merged into api/endpoints/Endpoints.ts.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ApiCapture, ApiCaptureFile } from '../utils/ApiCapture';
+import { EndpointGenerator } from '../utils/EndpointGenerator';
+
+const args = process.argv.slice(2);
+const files: string[] = [];
+let host: string | undefined;
+let outputFile = path.resolve(process.cwd(), 'api', 'endpoints', 'generated', 'CapturedApi.ts');
+let endpointsName: string | undefined;
+let clientName: string | undefined;
+
+// Parse arguments
+for (let i = 0; i < args.length; i++) {
+  const arg = args[i];
+  if (arg === '--out' || arg === '-o') {
+    outputFile = path.resolve(process.cwd(), args[i + 1]);
+    i++;
+  } else if (arg === '--host' || arg === '-h') {
+    host = args[i + 1];
+    i++;
+  } else if (arg === '--endpoints-name') {
+    endpointsName = args[i + 1];
+    i++;
+  } else if (arg === '--client-name') {
+    clientName = args[i + 1];
+    i++;
+  } else if (arg === '--help') {
+    console.log('Usage:');
+    console.log('  npm run capture:endpoints -- [capture-files...] [options]');
+    console.log('\nOptions:');
+    console.log('  --out, -o <file>           Output file (default: api/endpoints/generated/CapturedApi.ts)');
+    console.log('  --host, -h <host>          Host to generate for (default: host with the most calls)');
+    console.log('  --endpoints-name <name>    Endpoints constant name (default: CapturedEndpoints)');
+    console.log('  --client-name <name>       Client class name (default: CapturedApiClient)');
+    console.log('\nAll captures in apis-testcases/ are used when none are given.');
+    process.exit(0);
+  } else if (!arg.startsWith('-')) {
+    files.push(arg);
+  }
+}
+
+const captureFiles = files.length > 0
+  ? files.map(file => (fs.existsSync(file) ? file : path.join(ApiCapture.API_FOLDER, file)))
+  : (fs.existsSync(ApiCapture.API_FOLDER) ? fs.readdirSync(ApiCapture.API_FOLDER) : [])
+    .filter(file => file.endsWith('.json'))
+    .map(file => path.join(ApiCapture.API_FOLDER, file));
+
+if (captureFiles.length === 0) {
+  console.error('❌ Error: No capture files found in apis-testcases/');
+  process.exit(1);
+}
+
+try {
+  const captures = captureFiles.map(file => {
+    console.log(`📄 Reading capture: ${path.basename(file)}`);
+    return JSON.parse(fs.readFileSync(file, 'utf-8')) as ApiCaptureFile;
+  });
+
+  const apiClientPath = path.relative(path.dirname(outputFile), path.resolve(process.cwd(), 'api', 'client', 'ApiClient'));
+  const apiClientImport = apiClientPath.startsWith('.') ? apiClientPath : `./${apiClientPath}`;
+  const options = { host, endpointsName, clientName, apiClientImport: apiClientImport.split(path.sep).join('/') };
+  const endpoints = EndpointGenerator.analyze(captures, options);
+  if (endpoints.length === 0) {
+    console.error(`❌ Error: No endpoints found${host ? ` for host ${host}` : ''}`);
+    process.exit(1);
+  }
+
+  fs.mkdirSync(path.dirname(outputFile), { recursive: true });
+  fs.writeFileSync(outputFile, EndpointGenerator.generate(endpoints, options), 'utf-8');
+
+  endpoints.forEach(endpoint => {
+    console.log(`   ✓ ${endpoint.group}.${endpoint.key} → ${Object.keys(endpoint.methods).join('/')} ${endpoint.template}`);
+  });
+  console.log(`\n✅ ${endpoints.length} endpoint(s) generated → ${outputFile}`);
+} catch (error) {
+  console.error(`❌ Error: ${(error as Error).message}`);
+  process.exit(1);
+}
@@ -0,0 +1,71 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Schema Inference Script
+ *
+ * Scans apis-testcases captures and writes one JSON Schema per endpoint
+ * (merged across every captured response) for use with ApiAssertions.expectJsonSchema.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ApiCapture, ApiCaptureFile } from '../utils/ApiCapture';
+import { SchemaInference } from '../utils/SchemaInference';
+
+const args = process.argv.slice(2);
+const files: string[] = [];
+const hosts: string[] = [];
+let outputDir: string | undefined;
+let includeErrors = false;
+
+// Parse arguments
+for (let i = 0; i < args.length; i++) {
+  const arg = args[i];
+  if (arg === '--out' || arg === '-o') {
+    outputDir = path.resolve(process.cwd(), args[i + 1]);
+    i++;
+  } else if (arg === '--host' || arg === '-h') {
+    hosts.push(args[i + 1]);
+    i++;
+  } else if (arg === '--include-errors') {
+    includeErrors = true;
+  } else if (arg === '--help') {
+    console.log('Usage:');
+    console.log('  npm run capture:schemas -- [capture-files...] [options]');
+    console.log('\nOptions:');
+    console.log('  --out, -o <dir>      Output directory (default: api/schemas)');
+    console.log('  --host, -h <host>    Only include endpoints on this host (repeatable)');
+    console.log('  --include-errors     Also learn from non-2xx responses');
+    console.log('\nAll captures in apis-testcases/ are used when none are given.');
+    process.exit(0);
+  } else if (!arg.startsWith('-')) {
+    files.push(arg);
+  }
+}
+
+const captureFiles = files.length > 0
+  ? files.map(file => (fs.existsSync(file) ? file : path.join(ApiCapture.API_FOLDER, file)))
+  : (fs.existsSync(ApiCapture.API_FOLDER) ? fs.readdirSync(ApiCapture.API_FOLDER) : [])
+    .filter(file => file.endsWith('.json'))
+    .map(file => path.join(ApiCapture.API_FOLDER, file));
+
+if (captureFiles.length === 0) {
+  console.error('❌ Error: No capture files found in apis-testcases/');
+  process.exit(1);
+}
+
+try {
+  const captures = captureFiles.map(file => {
+    console.log(`📄 Reading capture: ${path.basename(file)}`);
+    return JSON.parse(fs.readFileSync(file, 'utf-8')) as ApiCaptureFile;
+  });
+
+  const inferred = SchemaInference.inferFromCaptures(captures, { hosts, includeErrors });
+  const written = SchemaInference.save(inferred, outputDir);
+
+  inferred.forEach(({ endpoint, samples }) => console.log(`   ✓ ${endpoint} (${samples} sample(s))`));
+  console.log(`\n✅ ${written.length} schema(s) saved → ${outputDir || SchemaInference.SCHEMA_FOLDER}`);
+} catch (error) {
+  console.error(`❌ Error: ${(error as Error).message}`);
+  process.exit(1);
+}
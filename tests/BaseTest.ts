@@ -1,6 +1,10 @@
 import { test as baseTest } from '@playwright/test';
 import { Helpers } from '../utils/Helpers';
 import { ApiCapture } from '../utils/ApiCapture';
+import { RequestSnippet } from '../utils/RequestSnippet';
+import { ApiReplay, ApiReplayOptions } from '../utils/ApiReplay';
+import { CapturePolicy, CapturePolicyConfig } from '../utils/CapturePolicy';
+import { Env } from '../config/env';
 import { MCPContextManager } from '../mcp/MCPContextManager';
 import { initializeMCPContext, getMCPContext, cleanupMCPContext } from '../mcp/MCPHooks';
 
@@ -10,7 +14,10 @@ import { initializeMCPContext, getMCPContext, cleanupMCPContext } from '../mcp/M
 export interface TestFixtures {
   testData: TestData;
   apiCapture: ApiCapture;
+  capturePolicy: CapturePolicy | CapturePolicyConfig | undefined;
   mcpContext: MCPContextManager;
+  apiReplayOptions: ApiReplayOptions | undefined;
+  apiReplay: ApiReplay | undefined;
 }
 
 /**
@@ -23,6 +30,22 @@ export interface TestData {
 // Global API capture instance storage (for auto-capture when fixture isn't used)
 const apiCaptureInstances = new Map<string, { apiCapture: ApiCapture; saved: boolean }>();
 
+// Tests answered from a replay file (their traffic must not overwrite the capture)
+const replayingTests = new Set<string>();
+
+/**
+ * Default replay options from environment (API_REPLAY_FILE, API_REPLAY_STRICT)
+ */
+function getEnvReplayOptions(): ApiReplayOptions | undefined {
+  const file = Env.get('API_REPLAY_FILE');
+  if (!file) return undefined;
+
+  return {
+    file,
+    strict: Env.getBoolean('API_REPLAY_STRICT'),
+  };
+}
+
 /**
  * Base Test with custom fixtures
  */
@@ -39,11 +62,17 @@ export const test = baseTest.extend<TestFixtures>({
     await use(testData);
   },
 
+  /**
+   * Capture policy - set per spec with test.use({ capturePolicy: CapturePolicy.fromPreset('first-party') }).
+   * Falls back to the API_CAPTURE_* environment configuration when undefined.
+   */
+  capturePolicy: [undefined, { option: true }],
+
   /**
    * API Capture fixture - automatically captures all API calls during test execution
    */
-  apiCapture: async ({ page }, use, testInfo) => {
-    const apiCapture = new ApiCapture();
+  apiCapture: async ({ page, capturePolicy }, use, testInfo) => {
+    const apiCapture = new ApiCapture({ policy: capturePolicy });
     const testName = `${testInfo.file} - ${testInfo.title}`;
     
     // Mark that fixture is being used (so afterEach won't double-save)
@@ -57,8 +86,10 @@ export const test = baseTest.extend<TestFixtures>({
     await use(apiCapture);
     
     // Save API calls after test completes (whether it passes or fails)
-    console.log(`📡 [API CAPTURE] Saving API calls for: ${testName}`);
-    await apiCapture.saveApiCalls(testName);
+    if (!replayingTests.has(testInfo.testId)) {
+      console.log(`📡 [API CAPTURE] Saving API calls for: ${testName}`);
+      await apiCapture.saveApiCalls(testName);
+    }
     
     // Mark as saved
     const instance = apiCaptureInstances.get(testInfo.testId);
@@ -85,13 +116,37 @@ export const test = baseTest.extend<TestFixtures>({
     
     // Test completion is handled in afterEach hook
   },
+
+  /**
+   * API Replay options - set per spec with test.use({ apiReplayOptions: { file, strict } })
+   */
+  apiReplayOptions: [getEnvReplayOptions(), { option: true }],
+
+  /**
+   * API Replay fixture - answers API requests from a saved apis-testcases capture
+   */
+  apiReplay: [async ({ page, apiReplayOptions }, use, testInfo) => {
+    if (!apiReplayOptions) {
+      await use(undefined);
+      return;
+    }
+
+    const apiReplay = ApiReplay.fromFile(apiReplayOptions);
+    await apiReplay.install(page);
+    replayingTests.add(testInfo.testId);
+
+    await use(apiReplay);
+
+    replayingTests.delete(testInfo.testId);
+    apiReplay.assertNoUnmatchedRequests();
+  }, { auto: true }],
 });
 
 // Add global setup/teardown to ensure API capture works even if fixture isn't used
-test.beforeEach(async ({ page }, testInfo) => {
-  // Only auto-start if fixture isn't being used
-  if (!apiCaptureInstances.has(testInfo.testId)) {
-    const apiCapture = new ApiCapture();
+test.beforeEach(async ({ page, capturePolicy }, testInfo) => {
+  // Only auto-start if fixture isn't being used and traffic isn't replayed
+  if (!apiCaptureInstances.has(testInfo.testId) && !replayingTests.has(testInfo.testId)) {
+    const apiCapture = new ApiCapture({ policy: capturePolicy });
     const testName = `${testInfo.file} - ${testInfo.title}`;
     apiCaptureInstances.set(testInfo.testId, { apiCapture, saved: false });
     apiCapture.startCapture(page, testName);
@@ -100,20 +155,31 @@ test.beforeEach(async ({ page }, testInfo) => {
 });
 
 test.afterEach(async ({ page }, testInfo) => {
-  // Save API calls if capture was started and not already saved by fixture
   const instance = apiCaptureInstances.get(testInfo.testId);
+  const mcpContext = getMCPContext(testInfo);
+
+  // Attach curl/fetch reproductions of failed captured calls (before the MCP context is saved)
+  if (instance) {
+    const reproductions = instance.apiCapture.getReproductions(`${testInfo.file} - ${testInfo.title}`);
+    reproductions.forEach(reproduction => mcpContext?.addApiReproduction(reproduction));
+    await RequestSnippet.attach(testInfo, reproductions, 'api-capture-reproduction');
+  }
+
+  // Save API calls if capture was started and not already saved by fixture.
+  // afterEach runs before fixture teardown, so replayed tests are skipped here too.
   if (instance && !instance.saved) {
     const testName = `${testInfo.file} - ${testInfo.title}`;
-    console.log(`📡 [API CAPTURE] Auto-saving for: ${testName}`);
-    await instance.apiCapture.saveApiCalls(testName);
+    if (!replayingTests.has(testInfo.testId)) {
+      console.log(`📡 [API CAPTURE] Auto-saving for: ${testName}`);
+      await instance.apiCapture.saveApiCalls(testName);
+    }
     instance.apiCapture.clearApiCalls(testName);
     apiCaptureInstances.delete(testInfo.testId);
   }
 
   // Cleanup MCP context and capture failure details
   const passed = testInfo.status === 'passed' || testInfo.status === 'skipped';
-  const mcpContext = getMCPContext(testInfo);
-  
+
   if (mcpContext) {
     // Capture error details if test failed
     if (!passed && testInfo.error) {
@@ -1,6 +1,34 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { Page, Request, Response } from '@playwright/test';
+import { Env } from '../config/env';
+import { HarExporter } from './HarExporter';
+import { Redactor, RedactionSummary } from './Redactor';
+import { CapturePolicy, CapturePolicyConfig } from './CapturePolicy';
+import { CaptureStreamLimits, CaptureStreamWriter } from './CaptureStreamWriter';
+import { ApiReproduction, RequestSnippet } from './RequestSnippet';
+
+/**
+ * Network timing breakdown in milliseconds (-1 when the phase did not happen,
+ * e.g. no DNS lookup or TLS handshake on a reused connection)
+ */
+export interface ApiCallTiming {
+  dns: number;
+  connect: number;
+  tls: number;
+  ttfb: number;
+  download: number;
+  total: number;
+}
+
+/**
+ * Body that was truncated or skipped by the stream writer
+ */
+export interface BodyLimitInfo {
+  truncated?: boolean;
+  skipped?: 'binary';
+  originalBytes: number;
+}
 
 /**
  * API Request/Response structure
@@ -16,6 +44,42 @@ export interface ApiCall {
   responseBody?: string | object;
   timestamp: number;
   duration?: number;
+  resourceType?: string;
+  matchedRule?: string;
+  timing?: ApiCallTiming;
+  failure?: string;
+  redirectedTo?: string;
+  redirectChain?: string[];
+  bodyLimits?: { postData?: BodyLimitInfo; responseBody?: BodyLimitInfo };
+}
+
+/**
+ * Saved capture file structure (apis-testcases/*.json)
+ */
+export interface ApiCaptureFile {
+  testName: string;
+  timestamp: string;
+  totalCalls: number;
+  methodSummary: Record<string, number>;
+  redaction?: RedactionSummary;
+  capped?: boolean;
+  apiCalls: ApiCall[];
+}
+
+/**
+ * API Capture options
+ */
+export interface ApiCaptureOptions {
+  /** Also write a HAR 1.2 file next to the JSON capture (default: API_CAPTURE_HAR env) */
+  exportHar?: boolean;
+  /** Redactor applied before anything is written; null disables redaction (default: Redactor.fromEnv()) */
+  redactor?: Redactor | null;
+  /** Which requests to record (default: CapturePolicy.fromEnv()) */
+  policy?: CapturePolicy | CapturePolicyConfig;
+  /** Append each completed call to an NDJSON stream instead of holding it in memory (default: API_CAPTURE_STREAM env) */
+  stream?: boolean;
+  /** Body and file size limits for the stream (default: API_CAPTURE_MAX_BODY_BYTES / API_CAPTURE_MAX_FILE_BYTES env) */
+  streamLimits?: CaptureStreamLimits;
 }
 
 /**
@@ -23,9 +87,31 @@ export interface ApiCall {
  * Captures all API calls during test execution and saves them to JSON files
  */
 export class ApiCapture {
-  private static readonly API_FOLDER = path.resolve(process.cwd(), 'apis-testcases');
+  static readonly API_FOLDER = path.resolve(process.cwd(), 'apis-testcases');
   private apiCalls: Map<string, ApiCall[]> = new Map();
-  private requestStartTimes: Map<string, number> = new Map();
+  private pendingCalls: WeakMap<Request, ApiCall> = new WeakMap();
+  private bodyReads: WeakMap<Request, Promise<void>> = new WeakMap();
+  private streams: Map<string, CaptureStreamWriter> = new Map();
+  private completions: Set<Promise<void>> = new Set();
+  private options: Required<ApiCaptureOptions>;
+  private policy: CapturePolicy;
+
+  constructor(options: ApiCaptureOptions = {}) {
+    // Explicit undefined falls back to env configuration; null disables redaction
+    this.options = {
+      exportHar: options.exportHar ?? Env.getBoolean('API_CAPTURE_HAR'),
+      redactor: options.redactor !== undefined ? options.redactor : Redactor.fromEnv(),
+      policy: options.policy ?? CapturePolicy.fromEnv(),
+      stream: options.stream ?? Env.getBoolean('API_CAPTURE_STREAM'),
+      streamLimits: options.streamLimits ?? {
+        maxBodyBytes: Env.getNumber('API_CAPTURE_MAX_BODY_BYTES', 256 * 1024),
+        maxFileBytes: Env.getNumber('API_CAPTURE_MAX_FILE_BYTES', 50 * 1024 * 1024),
+      },
+    };
+    this.policy = this.options.policy instanceof CapturePolicy
+      ? this.options.policy
+      : new CapturePolicy(this.options.policy);
+  }
 
   /**
    * Ensure API testcases directory exists
@@ -59,6 +145,14 @@ export class ApiCapture {
     return `${sanitized.substring(0, 150)}.json`;
   }
 
+  /**
+   * Get the NDJSON stream path for a test case
+   * @param testName - Name of the test case
+   */
+  static getStreamFilePath(testName: string): string {
+    return path.join(this.API_FOLDER, this.getTestFileName(testName).replace(/\.json$/, '.ndjson'));
+  }
+
   /**
    * Start capturing API calls for a test
    * @param page - Playwright page object
@@ -68,33 +162,34 @@ export class ApiCapture {
     const apiCalls: ApiCall[] = [];
     this.apiCalls.set(testName, apiCalls);
 
+    if (this.options.stream) {
+      ApiCapture.ensureApiDirectory();
+      this.streams.set(testName, new CaptureStreamWriter(
+        ApiCapture.getStreamFilePath(testName),
+        testName,
+        this.options.streamLimits,
+        this.options.redactor?.describe()
+      ));
+    }
+
     // Listen to all requests
     page.on('request', (request: Request) => {
       const method = request.method().toUpperCase();
       const url = request.url();
-      
-      // Only capture specific HTTP methods: GET, POST, PUT, PATCH, DELETE
-      const allowedMethods = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
-      const isAllowedMethod = allowedMethods.includes(method);
-      
-      if (!isAllowedMethod) {
-        return; // Skip if not an allowed method
-      }
-
-      const isApiCall = this.isApiRequest(url);
+      const resourceType = request.resourceType();
 
-      if (isApiCall) {
-        const timestamp = Date.now();
-        // Use a unique request ID (URL + timestamp + method)
-        const requestId = `${method}-${url}-${timestamp}-${Math.random()}`;
-        this.requestStartTimes.set(requestId, timestamp);
+      // Only capture requests the capture policy accepts
+      const decision = this.policy.evaluate({ url, method, resourceType });
 
+      if (decision.capture) {
         const apiCall: ApiCall = {
           url: url,
           method: method as 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE',
           headers: request.headers(),
           postData: request.postData() || undefined,
-          timestamp: timestamp,
+          timestamp: Date.now(),
+          resourceType,
+          matchedRule: decision.rule,
         };
 
         // Try to parse postData if it's JSON
@@ -106,126 +201,136 @@ export class ApiCapture {
           }
         }
 
+        // Link redirect hops: Playwright issues a new Request for each hop
+        const redirectedFrom = request.redirectedFrom();
+        const previousCall = redirectedFrom ? this.pendingCalls.get(redirectedFrom) : undefined;
+        if (previousCall) {
+          previousCall.redirectedTo = url;
+          apiCall.redirectChain = [...(previousCall.redirectChain || []), previousCall.url];
+        }
+
+        // Correlate by Request identity, not URL
+        this.pendingCalls.set(request, apiCall);
         apiCalls.push(apiCall);
         console.log(`📡 [API CAPTURE] Captured ${method} request: ${url.substring(0, 100)}`);
       }
     });
 
     // Listen to all responses
-    page.on('response', async (response: Response) => {
-      const method = response.request().method().toUpperCase();
-      const url = response.url();
-      
-      // Only capture responses for allowed HTTP methods
-      const allowedMethods = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
-      const isAllowedMethod = allowedMethods.includes(method);
-      
-      if (!isAllowedMethod) {
-        return; // Skip if not an allowed method
+    page.on('response', (response: Response) => {
+      const apiCall = this.pendingCalls.get(response.request());
+      if (apiCall) {
+        this.bodyReads.set(response.request(), this.recordResponse(apiCall, response));
       }
+    });
 
-      const isApiCall = this.isApiRequest(url);
+    // Timing is only complete once the request has finished
+    page.on('requestfinished', async (request: Request) => {
+      const apiCall = this.pendingCalls.get(request);
+      if (!apiCall) return;
 
-      if (isApiCall) {
-        // Find the most recent request with this URL and method that doesn't have a status yet
-        const apiCall = apiCalls
-          .filter(call => call.url === url && call.method === method && !call.status)
-          .sort((a, b) => b.timestamp - a.timestamp)[0]; // Get the most recent one
+      this.applyTiming(apiCall, request);
+      await this.completeCall(testName, request, apiCall);
+    });
 
-        if (apiCall) {
-          const requestId = `${method}-${url}`;
-          const startTime = this.requestStartTimes.get(requestId);
-          const duration = startTime ? Date.now() - startTime : undefined;
+    page.on('requestfailed', async (request: Request) => {
+      const apiCall = this.pendingCalls.get(request);
+      if (!apiCall) return;
 
-          apiCall.status = response.status();
-          apiCall.statusText = response.statusText();
-          apiCall.responseHeaders = response.headers();
-          apiCall.duration = duration;
+      apiCall.failure = request.failure()?.errorText || 'Request failed';
+      this.applyTiming(apiCall, request);
+      console.log(`📡 [API CAPTURE] Request failed: ${apiCall.failure} - ${apiCall.url.substring(0, 100)}`);
+      await this.completeCall(testName, request, apiCall);
+    });
+  }
 
-          // Try to get response body
-          try {
-            const contentType = response.headers()['content-type'] || '';
-            if (contentType.includes('application/json')) {
-              apiCall.responseBody = await response.json();
-            } else if (contentType.includes('text/')) {
-              apiCall.responseBody = await response.text();
-            } else if (contentType.includes('application/xml') || contentType.includes('text/xml')) {
-              apiCall.responseBody = await response.text();
-            }
-          } catch (error) {
-            // Response body might not be available or already consumed
-            apiCall.responseBody = 'Unable to capture response body';
-          }
-          
-          console.log(`📡 [API CAPTURE] Captured ${method} response: ${response.status()} - ${url.substring(0, 100)}`);
-        }
+  /**
+   * Record response status, headers and body on a call
+   * @param apiCall - Captured call
+   * @param response - Playwright response
+   */
+  private async recordResponse(apiCall: ApiCall, response: Response): Promise<void> {
+    apiCall.status = response.status();
+    apiCall.statusText = response.statusText();
+    apiCall.responseHeaders = response.headers();
+
+    // Redirect responses carry no body
+    if (apiCall.status >= 300 && apiCall.status < 400) return;
+
+    // Try to get response body
+    try {
+      const contentType = response.headers()['content-type'] || '';
+      if (contentType.includes('application/json')) {
+        apiCall.responseBody = await response.json();
+      } else if (contentType.includes('text/')) {
+        apiCall.responseBody = await response.text();
+      } else if (contentType.includes('application/xml') || contentType.includes('text/xml')) {
+        apiCall.responseBody = await response.text();
       }
-    });
+    } catch (error) {
+      // Response body might not be available or already consumed
+      apiCall.responseBody = 'Unable to capture response body';
+    }
+
+    console.log(`📡 [API CAPTURE] Captured ${apiCall.method} response: ${response.status()} - ${apiCall.url.substring(0, 100)}`);
   }
 
   /**
-   * Check if a URL is an API request (not a static asset)
-   * @param url - Request URL
-   * @returns true if it's an API call
+   * Handle a finished or failed call. In streaming mode the call is appended
+   * to the NDJSON file and released from memory.
    */
-  private isApiRequest(url: string): boolean {
-    // Exclude static assets
-    const staticExtensions = ['.js', '.css', '.png', '.jpg', '.jpeg', '.gif', '.svg', '.ico', '.woff', '.woff2', '.ttf', '.eot', '.map'];
-    const urlLower = url.toLowerCase();
-    const hasStaticExtension = staticExtensions.some(ext => urlLower.includes(ext));
-
-    // Exclude browser internal requests
-    const isBrowserInternal = url.startsWith('chrome-extension://') || 
-                              url.startsWith('moz-extension://') ||
-                              url.startsWith('data:') ||
-                              url.startsWith('blob:') ||
-                              url.startsWith('chrome://') ||
-                              url.startsWith('about:');
-
-    // Exclude common static asset paths
-    const isStaticPath = urlLower.includes('/assets/') ||
-                        urlLower.includes('/static/') ||
-                        urlLower.includes('/images/') ||
-                        urlLower.includes('/fonts/') ||
-                        urlLower.includes('/css/') ||
-                        urlLower.includes('/js/');
-
-    // Include API-like patterns
-    const isApiPattern = url.includes('/api/') ||
-                         url.includes('/graphql') ||
-                         url.includes('/rest/') ||
-                         url.includes('/ajax/') ||
-                         url.includes('/endpoint/') ||
-                         (url.includes('?') && !hasStaticExtension && !isStaticPath) ||
-                         url.match(/\/v\d+\//) !== null; // Versioned APIs
-
-    // Also capture any JSON responses or POST/PUT/DELETE requests to the main domain
-    const isHttpMethod = url.match(/https?:\/\//) !== null && 
-                       !hasStaticExtension && 
-                       !isBrowserInternal && 
-                       !isStaticPath;
-
-    return !hasStaticExtension && !isBrowserInternal && !isStaticPath && (isApiPattern || this.looksLikeApi(url) || isHttpMethod);
+  private async completeCall(testName: string, request: Request, apiCall: ApiCall): Promise<void> {
+    const stream = this.streams.get(testName);
+    if (!stream) return;
+
+    // Hand the call over from the in-memory list to the stream
+    const apiCalls = this.apiCalls.get(testName) || [];
+    const index = apiCalls.indexOf(apiCall);
+    if (index === -1) return;
+    apiCalls.splice(index, 1);
+
+    const completion = (async () => {
+      await this.bodyReads.get(request);
+      const redactor = this.options.redactor;
+      stream.append(redactor ? redactor.redactApiCall(apiCall) : apiCall);
+    })();
+
+    this.completions.add(completion);
+    await completion;
+    this.completions.delete(completion);
+  }
+
+  /**
+   * Record the request.timing() breakdown and total duration on a call
+   * @param apiCall - Captured call
+   * @param request - Finished or failed Playwright request
+   */
+  private applyTiming(apiCall: ApiCall, request: Request): void {
+    const timing = request.timing();
+    const phase = (start: number, end: number) => (start >= 0 && end >= 0 ? Math.round(end - start) : -1);
+
+    if (timing.startTime > 0) {
+      apiCall.timestamp = Math.round(timing.startTime);
+    }
+
+    apiCall.timing = {
+      dns: phase(timing.domainLookupStart, timing.domainLookupEnd),
+      connect: phase(timing.connectStart, timing.connectEnd),
+      tls: timing.secureConnectionStart > 0 ? phase(timing.secureConnectionStart, timing.connectEnd) : -1,
+      ttfb: phase(timing.requestStart, timing.responseStart),
+      download: phase(timing.responseStart, timing.responseEnd),
+      total: timing.responseEnd >= 0 ? Math.round(timing.responseEnd) : -1,
+    };
+    apiCall.duration = apiCall.timing.total >= 0 ? apiCall.timing.total : Date.now() - apiCall.timestamp;
   }
 
   /**
-   * Check if URL looks like an API endpoint
+   * Check if a URL is an API request (not a static asset)
    * @param url - Request URL
-   * @returns true if it looks like an API
+   * @returns true if it's an API call
    */
-  private looksLikeApi(url: string): boolean {
-    // Check for common API patterns
-    const apiPatterns = [
-      /\/api\//i,
-      /\/graphql/i,
-      /\/rest\//i,
-      /\/v\d+\//i, // Versioned APIs
-      /\.json$/i,
-      /\/ajax\//i,
-      /\/endpoint\//i,
-    ];
-
-    return apiPatterns.some(pattern => pattern.test(url));
+  static isApiRequest(url: string): boolean {
+    return CapturePolicy.isApiUrl(url);
   }
 
   /**
@@ -235,23 +340,39 @@ export class ApiCapture {
   async saveApiCalls(testName: string): Promise<void> {
     ApiCapture.ensureApiDirectory();
 
-    const apiCalls = this.apiCalls.get(testName) || [];
+    // Mask secrets and PII before anything reaches disk
+    const redactor = this.options.redactor;
+    const capturedCalls = this.apiCalls.get(testName) || [];
     const fileName = ApiCapture.getTestFileName(testName);
     const filePath = path.join(ApiCapture.API_FOLDER, fileName);
-
-    // Group API calls by method for summary
-    const methodCounts: Record<string, number> = {};
-    apiCalls.forEach(call => {
-      methodCounts[call.method] = (methodCounts[call.method] || 0) + 1;
-    });
-
-    const apiData = {
-      testName: testName,
-      timestamp: new Date().toISOString(),
-      totalCalls: apiCalls.length,
-      methodSummary: methodCounts,
-      apiCalls: apiCalls,
-    };
+    const stream = this.streams.get(testName);
+    let apiData: ApiCaptureFile;
+
+    if (stream) {
+      // Flush calls still in flight, then compact the stream into the summary format.
+      // They leave the in-memory list first, so a late requestfinished does not append them again.
+      await Promise.all(this.completions);
+      capturedCalls.splice(0).forEach(call => stream.append(redactor ? redactor.redactApiCall(call) : call));
+      apiData = CaptureStreamWriter.compact(ApiCapture.getStreamFilePath(testName), testName);
+    } else {
+      const apiCalls = redactor ? capturedCalls.map(call => redactor.redactApiCall(call)) : capturedCalls;
+
+      // Group API calls by method for summary
+      const methodCounts: Record<string, number> = {};
+      apiCalls.forEach(call => {
+        methodCounts[call.method] = (methodCounts[call.method] || 0) + 1;
+      });
+
+      apiData = {
+        testName: testName,
+        timestamp: new Date().toISOString(),
+        totalCalls: apiCalls.length,
+        methodSummary: methodCounts,
+        redaction: redactor?.describe(),
+        apiCalls: apiCalls,
+      };
+    }
+    const apiCalls = apiData.apiCalls;
 
     try {
       fs.writeFileSync(
@@ -263,6 +384,16 @@ export class ApiCapture {
     } catch (error) {
       console.error(`❌ Failed to save API calls for ${testName}:`, error);
     }
+
+    if (this.options.exportHar) {
+      const harFileName = fileName.replace(/\.json$/, '.har');
+      try {
+        HarExporter.save(path.join(ApiCapture.API_FOLDER, harFileName), testName, apiCalls);
+        console.log(`✅ HAR saved: ${apiCalls.length} entries → ${harFileName}`);
+      } catch (error) {
+        console.error(`❌ Failed to save HAR for ${testName}:`, error);
+      }
+    }
   }
 
   /**
@@ -271,7 +402,28 @@ export class ApiCapture {
    * @returns Array of API calls
    */
   getApiCalls(testName: string): ApiCall[] {
-    return this.apiCalls.get(testName) || [];
+    const inFlight = this.apiCalls.get(testName) || [];
+    if (!this.streams.has(testName)) {
+      return inFlight;
+    }
+
+    // Completed calls live in the stream file
+    return [...CaptureStreamWriter.readCalls(ApiCapture.getStreamFilePath(testName)), ...inFlight];
+  }
+
+  /**
+   * Redacted curl and fetch snippets for captured calls
+   * @param testName - Name of the test case
+   * @param failedOnly - Only calls that failed or returned HTTP status >= 400 (default: true)
+   */
+  getReproductions(testName: string, failedOnly: boolean = true): ApiReproduction[] {
+    return this.getApiCalls(testName)
+      .filter(call => !failedOnly || RequestSnippet.isFailure(call))
+      .map(call => RequestSnippet.reproduce(
+        RequestSnippet.fromApiCall(call),
+        { status: call.status, failure: call.failure, timestamp: call.timestamp },
+        this.options.redactor
+      ));
   }
 
   /**
@@ -280,5 +432,6 @@ export class ApiCapture {
    */
   clearApiCalls(testName: string): void {
     this.apiCalls.delete(testName);
+    this.streams.delete(testName);
   }
 }
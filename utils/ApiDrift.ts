@@ -0,0 +1,393 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ApiCall, ApiCaptureFile } from './ApiCapture';
+import { EndpointPath } from './EndpointPath';
+
+/**
+ * Drift comparison options
+ */
+export interface DriftOptions {
+  /** Flag latency changes above this percentage (default: 50) */
+  latencyThresholdPct?: number;
+  /** Ignore latency changes smaller than this many milliseconds (default: 100) */
+  latencyMinDeltaMs?: number;
+}
+
+/**
+ * Field-level type change
+ */
+export interface FieldTypeChange {
+  path: string;
+  base: string[];
+  current: string[];
+}
+
+/**
+ * Drift detected for one endpoint present in both captures
+ */
+export interface EndpointDrift {
+  endpoint: string;
+  statusChange?: { base: number[]; current: number[] };
+  addedFields: string[];
+  missingFields: string[];
+  typeChanges: FieldTypeChange[];
+  latencyChange?: { baseMs: number; currentMs: number; changePct: number };
+}
+
+/**
+ * Drift report between two capture runs
+ */
+export interface DriftReport {
+  generatedAt: string;
+  base: { testName: string; timestamp: string };
+  current: { testName: string; timestamp: string };
+  summary: {
+    addedEndpoints: number;
+    removedEndpoints: number;
+    changedEndpoints: number;
+    unchangedEndpoints: number;
+  };
+  addedEndpoints: string[];
+  removedEndpoints: string[];
+  changedEndpoints: EndpointDrift[];
+}
+
+/**
+ * Value type name used in shape maps
+ */
+function typeOf(value: any): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+/**
+ * Flatten a JSON value into a map of field path -> observed types.
+ * Array items share the `[]` segment, e.g. `items[].id`.
+ */
+export function collectShape(value: any, shape: Map<string, Set<string>> = new Map(), prefix: string = '$'): Map<string, Set<string>> {
+  const types = shape.get(prefix) || new Set<string>();
+  types.add(typeOf(value));
+  shape.set(prefix, types);
+
+  if (Array.isArray(value)) {
+    value.forEach(item => collectShape(item, shape, `${prefix}[]`));
+  } else if (value !== null && typeof value === 'object') {
+    Object.entries(value).forEach(([key, item]) => collectShape(item, shape, `${prefix}.${key}`));
+  }
+
+  return shape;
+}
+
+/**
+ * Path-level differences between two JSON values
+ */
+export function diffValues(base: any, current: any, prefix: string = '$'): string[] {
+  const baseType = typeOf(base);
+  const currentType = typeOf(current);
+
+  if (baseType !== currentType) {
+    return [`${prefix}: type ${baseType} -> ${currentType}`];
+  }
+
+  if (baseType === 'array') {
+    const differences: string[] = [];
+    if (base.length !== current.length) {
+      differences.push(`${prefix}: length ${base.length} -> ${current.length}`);
+    }
+    for (let i = 0; i < Math.min(base.length, current.length); i++) {
+      differences.push(...diffValues(base[i], current[i], `${prefix}[${i}]`));
+    }
+    return differences;
+  }
+
+  if (baseType === 'object') {
+    const differences: string[] = [];
+    const keys = new Set([...Object.keys(base), ...Object.keys(current)]);
+    keys.forEach(key => {
+      if (!(key in current)) differences.push(`${prefix}.${key}: removed`);
+      else if (!(key in base)) differences.push(`${prefix}.${key}: added`);
+      else differences.push(...diffValues(base[key], current[key], `${prefix}.${key}`));
+    });
+    return differences;
+  }
+
+  return base === current ? [] : [`${prefix}: ${JSON.stringify(base)} -> ${JSON.stringify(current)}`];
+}
+
+/**
+ * API Drift Report
+ * Compares two ApiCapture files of the same test and reports contract drift
+ */
+export class ApiDrift {
+  private static readonly REPORT_FOLDER = path.resolve(process.cwd(), 'reports', 'api-drift');
+
+  /**
+   * Load a capture file
+   * @param filePath - Capture path (resolved against apis-testcases/ when relative and not found)
+   */
+  static loadCapture(filePath: string): ApiCaptureFile {
+    const candidates = [
+      path.resolve(process.cwd(), filePath),
+      path.resolve(process.cwd(), 'apis-testcases', filePath),
+    ];
+    const found = candidates.find(candidate => fs.existsSync(candidate));
+    if (!found) {
+      throw new Error(`Capture file not found: ${filePath}`);
+    }
+    return JSON.parse(fs.readFileSync(found, 'utf-8')) as ApiCaptureFile;
+  }
+
+  /**
+   * Compare two captures
+   * @param base - Baseline capture (e.g. yesterday or staging)
+   * @param current - Capture to check (e.g. today or prod)
+   * @param options - Drift thresholds
+   * @returns Drift report
+   */
+  static compare(base: ApiCaptureFile, current: ApiCaptureFile, options: DriftOptions = {}): DriftReport {
+    const latencyThresholdPct = options.latencyThresholdPct ?? 50;
+    const latencyMinDeltaMs = options.latencyMinDeltaMs ?? 100;
+
+    const baseEndpoints = this.groupByEndpoint(base.apiCalls);
+    const currentEndpoints = this.groupByEndpoint(current.apiCalls);
+
+    const addedEndpoints = [...currentEndpoints.keys()].filter(key => !baseEndpoints.has(key)).sort();
+    const removedEndpoints = [...baseEndpoints.keys()].filter(key => !currentEndpoints.has(key)).sort();
+    const changedEndpoints: EndpointDrift[] = [];
+    let unchangedEndpoints = 0;
+
+    [...baseEndpoints.keys()].filter(key => currentEndpoints.has(key)).sort().forEach(endpoint => {
+      const drift = this.compareEndpoint(
+        endpoint,
+        baseEndpoints.get(endpoint)!,
+        currentEndpoints.get(endpoint)!,
+        latencyThresholdPct,
+        latencyMinDeltaMs
+      );
+      if (drift) changedEndpoints.push(drift);
+      else unchangedEndpoints++;
+    });
+
+    return {
+      generatedAt: new Date().toISOString(),
+      base: { testName: base.testName, timestamp: base.timestamp },
+      current: { testName: current.testName, timestamp: current.timestamp },
+      summary: {
+        addedEndpoints: addedEndpoints.length,
+        removedEndpoints: removedEndpoints.length,
+        changedEndpoints: changedEndpoints.length,
+        unchangedEndpoints,
+      },
+      addedEndpoints,
+      removedEndpoints,
+      changedEndpoints,
+    };
+  }
+
+  /**
+   * Check whether a report contains any drift
+   */
+  static hasDrift(report: DriftReport): boolean {
+    const { addedEndpoints, removedEndpoints, changedEndpoints } = report.summary;
+    return addedEndpoints + removedEndpoints + changedEndpoints > 0;
+  }
+
+  /**
+   * Save the report as JSON and HTML
+   * @param report - Drift report
+   * @param baseName - Output file name without extension
+   * @param outputDir - Output directory (default: reports/api-drift)
+   * @returns Paths of the written files
+   */
+  static save(report: DriftReport, baseName: string, outputDir: string = this.REPORT_FOLDER): { json: string; html: string } {
+    if (!fs.existsSync(outputDir)) {
+      fs.mkdirSync(outputDir, { recursive: true });
+    }
+
+    const jsonPath = path.join(outputDir, `${baseName}.json`);
+    const htmlPath = path.join(outputDir, `${baseName}.html`);
+    fs.writeFileSync(jsonPath, JSON.stringify(report, null, 2), 'utf-8');
+    fs.writeFileSync(htmlPath, this.toHtml(report), 'utf-8');
+
+    return { json: jsonPath, html: htmlPath };
+  }
+
+  /**
+   * Render the report as a standalone HTML page
+   */
+  static toHtml(report: DriftReport): string {
+    const escape = (value: string) => value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+    const list = (items: string[]) => items.length > 0
+      ? `<ul>${items.map(item => `<li><code>${escape(item)}</code></li>`).join('')}</ul>`
+      : '<p class="none">None</p>';
+
+    const endpointSections = report.changedEndpoints.map(drift => {
+      const rows: string[] = [];
+      if (drift.statusChange) {
+        rows.push(`<tr><td>Status</td><td>${drift.statusChange.base.join(', ')}</td><td>${drift.statusChange.current.join(', ')}</td></tr>`);
+      }
+      drift.addedFields.forEach(field => rows.push(`<tr class="added"><td>New field</td><td></td><td><code>${escape(field)}</code></td></tr>`));
+      drift.missingFields.forEach(field => rows.push(`<tr class="removed"><td>Missing field</td><td><code>${escape(field)}</code></td><td></td></tr>`));
+      drift.typeChanges.forEach(change => rows.push(
+        `<tr class="changed"><td>Type <code>${escape(change.path)}</code></td><td>${change.base.join(' | ')}</td><td>${change.current.join(' | ')}</td></tr>`
+      ));
+      if (drift.latencyChange) {
+        const { baseMs, currentMs, changePct } = drift.latencyChange;
+        rows.push(`<tr class="changed"><td>Median latency</td><td>${baseMs}ms</td><td>${currentMs}ms (${changePct > 0 ? '+' : ''}${changePct}%)</td></tr>`);
+      }
+      return `<h3><code>${escape(drift.endpoint)}</code></h3>
+<table><thead><tr><th>Change</th><th>Base</th><th>Current</th></tr></thead><tbody>${rows.join('')}</tbody></table>`;
+    }).join('\n');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>API Drift Report</title>
+<style>
+  body { font-family: -apple-system, Segoe UI, Roboto, sans-serif; margin: 2rem; color: #222; }
+  table { border-collapse: collapse; margin-bottom: 1.5rem; min-width: 60%; }
+  th, td { border: 1px solid #ddd; padding: 0.4rem 0.6rem; text-align: left; vertical-align: top; }
+  th { background: #f4f4f4; }
+  tr.added td { background: #eaf7ea; }
+  tr.removed td { background: #fbeaea; }
+  tr.changed td { background: #fff8e1; }
+  .none { color: #888; }
+</style>
+</head>
+<body>
+<h1>API Drift Report</h1>
+<p>Base: <strong>${escape(report.base.testName)}</strong> (${escape(report.base.timestamp)})<br>
+Current: <strong>${escape(report.current.testName)}</strong> (${escape(report.current.timestamp)})<br>
+Generated: ${escape(report.generatedAt)}</p>
+<table>
+<tr><th>Added endpoints</th><td>${report.summary.addedEndpoints}</td></tr>
+<tr><th>Removed endpoints</th><td>${report.summary.removedEndpoints}</td></tr>
+<tr><th>Changed endpoints</th><td>${report.summary.changedEndpoints}</td></tr>
+<tr><th>Unchanged endpoints</th><td>${report.summary.unchangedEndpoints}</td></tr>
+</table>
+<h2>Added endpoints</h2>
+${list(report.addedEndpoints)}
+<h2>Removed endpoints</h2>
+${list(report.removedEndpoints)}
+<h2>Changed endpoints</h2>
+${endpointSections || '<p class="none">None</p>'}
+</body>
+</html>
+`;
+  }
+
+  /**
+   * Group calls by endpoint key (METHOD host/path with IDs and handles parameterised, query string ignored)
+   */
+  private static groupByEndpoint(apiCalls: ApiCall[]): Map<string, ApiCall[]> {
+    const groups = new Map<string, ApiCall[]>();
+
+    apiCalls.forEach(call => {
+      const key = EndpointPath.getEndpointKey(call.method, call.url);
+      const calls = groups.get(key) || [];
+      calls.push(call);
+      groups.set(key, calls);
+    });
+
+    return groups;
+  }
+
+  /**
+   * Compare all calls of one endpoint between runs
+   */
+  private static compareEndpoint(
+    endpoint: string,
+    baseCalls: ApiCall[],
+    currentCalls: ApiCall[],
+    latencyThresholdPct: number,
+    latencyMinDeltaMs: number
+  ): EndpointDrift | null {
+    const drift: EndpointDrift = { endpoint, addedFields: [], missingFields: [], typeChanges: [] };
+
+    const baseStatuses = this.getStatuses(baseCalls);
+    const currentStatuses = this.getStatuses(currentCalls);
+    if (baseStatuses.join(',') !== currentStatuses.join(',')) {
+      drift.statusChange = { base: baseStatuses, current: currentStatuses };
+    }
+
+    const baseShape = this.getResponseShape(baseCalls);
+    const currentShape = this.getResponseShape(currentCalls);
+    if (baseShape && currentShape) {
+      currentShape.forEach((types, field) => {
+        if (!baseShape.has(field)) drift.addedFields.push(field);
+      });
+      baseShape.forEach((types, field) => {
+        const currentTypes = currentShape.get(field);
+        if (!currentTypes) {
+          drift.missingFields.push(field);
+          return;
+        }
+        const baseList = [...types].sort();
+        const currentList = [...currentTypes].sort();
+        if (baseList.join('|') !== currentList.join('|')) {
+          drift.typeChanges.push({ path: field, base: baseList, current: currentList });
+        }
+      });
+    }
+
+    const baseLatency = this.median(baseCalls);
+    const currentLatency = this.median(currentCalls);
+    if (baseLatency !== undefined && currentLatency !== undefined && baseLatency > 0) {
+      const delta = currentLatency - baseLatency;
+      const changePct = Math.round((delta / baseLatency) * 100);
+      if (Math.abs(delta) >= latencyMinDeltaMs && Math.abs(changePct) >= latencyThresholdPct) {
+        drift.latencyChange = { baseMs: baseLatency, currentMs: currentLatency, changePct };
+      }
+    }
+
+    const changed = drift.statusChange || drift.latencyChange ||
+      drift.addedFields.length > 0 || drift.missingFields.length > 0 || drift.typeChanges.length > 0;
+    return changed ? drift : null;
+  }
+
+  /**
+   * Distinct sorted status codes of a set of calls
+   */
+  private static getStatuses(calls: ApiCall[]): number[] {
+    return [...new Set(calls.map(call => call.status).filter((status): status is number => status !== undefined))]
+      .sort((a, b) => a - b);
+  }
+
+  /**
+   * Merged shape of all JSON (object/array) response bodies, or null when there are none
+   */
+  private static getResponseShape(calls: ApiCall[]): Map<string, Set<string>> | null {
+    const bodies = calls
+      .map(call => call.responseBody)
+      .filter(body => body !== null && typeof body === 'object');
+
+    if (bodies.length === 0) return null;
+
+    const shape = new Map<string, Set<string>>();
+    bodies.forEach(body => collectShape(body, shape));
+    return shape;
+  }
+
+  /**
+   * Median duration of calls with a recorded duration
+   */
+  private static median(calls: ApiCall[]): number | undefined {
+    const durations = calls
+      .map(call => call.duration)
+      .filter((duration): duration is number => typeof duration === 'number')
+      .sort((a, b) => a - b);
+
+    if (durations.length === 0) return undefined;
+
+    const middle = Math.floor(durations.length / 2);
+    return durations.length % 2 === 0
+      ? Math.round((durations[middle - 1] + durations[middle]) / 2)
+      : durations[middle];
+  }
+}
@@ -0,0 +1,227 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Page, Request, Route } from '@playwright/test';
+import { ApiCall, ApiCapture, ApiCaptureFile } from './ApiCapture';
+import { Redactor } from './Redactor';
+
+/**
+ * Replay matching and strictness options
+ */
+export interface ApiReplayOptions {
+  /** Capture file name (resolved against apis-testcases/) or absolute path */
+  file: string;
+  /** Include the query string when matching URLs (default: true) */
+  matchQuery?: boolean;
+  /** Require request bodies to match the recorded postData (default: false) */
+  matchBody?: boolean;
+  /** Fail the test on any API request that is not in the capture (default: false) */
+  strict?: boolean;
+  /** Let unmatched and non-API requests reach the network (default: true) */
+  passthrough?: boolean;
+  /**
+   * Redactor applied to live requests before lookup so they match the redacted capture;
+   * null compares them as-is (default: rebuilt from the capture's redaction summary)
+   */
+  redactor?: Redactor | null;
+}
+
+/**
+ * Request that could not be answered from the capture
+ */
+export interface UnmatchedRequest {
+  method: string;
+  url: string;
+  timestamp: number;
+}
+
+/**
+ * Headers that describe the original wire encoding and must not be replayed
+ * with an already-decoded body
+ */
+const HOP_BY_HOP_HEADERS = ['content-encoding', 'content-length', 'transfer-encoding', 'connection'];
+
+/**
+ * API Replay Utility
+ * Serves a saved ApiCapture file as page.route mocks so specs can run offline
+ */
+export class ApiReplay {
+  private readonly options: Required<Omit<ApiReplayOptions, 'redactor'>>;
+  private readonly redactor: Redactor | null;
+  private readonly recordings: Map<string, ApiCall[]> = new Map();
+  private readonly served: Map<string, number> = new Map();
+  private readonly unmatched: UnmatchedRequest[] = [];
+
+  constructor(capture: ApiCaptureFile, options: ApiReplayOptions) {
+    this.options = {
+      matchQuery: true,
+      matchBody: false,
+      strict: false,
+      passthrough: true,
+      ...options,
+    };
+    this.redactor = options.redactor !== undefined
+      ? options.redactor
+      : capture.redaction ? Redactor.fromSummary(capture.redaction) : null;
+
+    capture.apiCalls
+      .filter(call => call.status !== undefined)
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .forEach(call => {
+        const key = this.getKey(call.method, call.url);
+        const calls = this.recordings.get(key) || [];
+        calls.push(call);
+        this.recordings.set(key, calls);
+      });
+  }
+
+  /**
+   * Load a capture file and create a replay for it
+   * @param options - Replay options, including the capture file
+   * @returns ApiReplay instance
+   */
+  static fromFile(options: ApiReplayOptions): ApiReplay {
+    const filePath = path.isAbsolute(options.file)
+      ? options.file
+      : path.join(ApiCapture.API_FOLDER, options.file);
+
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`API replay file not found: ${filePath}`);
+    }
+
+    const capture = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as ApiCaptureFile;
+    console.log(`📼 [API REPLAY] Loaded ${capture.apiCalls.length} calls from ${path.basename(filePath)}`);
+    return new ApiReplay(capture, options);
+  }
+
+  /**
+   * Install route handlers on the page
+   * @param page - Playwright page object
+   */
+  async install(page: Page): Promise<void> {
+    await page.route('**/*', route => this.handleRoute(route));
+  }
+
+  /**
+   * Get requests that were not answered from the capture
+   */
+  getUnmatchedRequests(): UnmatchedRequest[] {
+    return [...this.unmatched];
+  }
+
+  /**
+   * Throw if strict mode is enabled and any API request was not recorded
+   */
+  assertNoUnmatchedRequests(): void {
+    if (!this.options.strict || this.unmatched.length === 0) return;
+
+    const list = this.unmatched.map(request => `  ${request.method} ${request.url}`).join('\n');
+    throw new Error(`API replay (strict): ${this.unmatched.length} unrecorded request(s):\n${list}`);
+  }
+
+  /**
+   * Answer a routed request from the capture, or let it through / abort it
+   */
+  private async handleRoute(route: Route): Promise<void> {
+    const request = route.request();
+    const method = request.method().toUpperCase();
+    const url = request.url();
+
+    if (!ApiCapture.isApiRequest(url)) {
+      await (this.options.passthrough ? route.continue() : route.abort());
+      return;
+    }
+
+    const call = this.findRecording(request);
+    if (call) {
+      await route.fulfill({
+        status: call.status,
+        headers: this.getReplayHeaders(call.responseHeaders || {}),
+        body: this.getReplayBody(call.responseBody),
+      });
+      console.log(`📼 [API REPLAY] Served ${method} ${call.status} - ${url.substring(0, 100)}`);
+      return;
+    }
+
+    this.unmatched.push({ method, url, timestamp: Date.now() });
+    console.warn(`⚠️ [API REPLAY] No recording for ${method} ${url.substring(0, 100)}`);
+
+    if (this.options.strict || !this.options.passthrough) {
+      await route.abort('failed');
+    } else {
+      await route.continue();
+    }
+  }
+
+  /**
+   * Find the next recorded call for a request.
+   * Repeated requests are served in recorded order; the last one is reused once exhausted.
+   */
+  private findRecording(request: Request): ApiCall | undefined {
+    // The capture holds redacted URLs and bodies, so the live request is redacted the same way
+    const url = this.redactor ? this.redactor.redactUrl(request.url()) : request.url();
+    const postData = request.postData() || undefined;
+    const body = this.normalizeBody(postData !== undefined && this.redactor ? this.redactor.redactBody(postData, request.url()) : postData);
+
+    const key = this.getKey(request.method(), url);
+    let candidates = this.recordings.get(key) || [];
+
+    if (this.options.matchBody) {
+      candidates = candidates.filter(call => this.normalizeBody(call.postData) === body);
+    }
+
+    if (candidates.length === 0) return undefined;
+
+    const servedKey = this.options.matchBody ? `${key} ${body}` : key;
+    const index = this.served.get(servedKey) || 0;
+    this.served.set(servedKey, index + 1);
+
+    return candidates[Math.min(index, candidates.length - 1)];
+  }
+
+  /**
+   * Build the lookup key for a method and URL
+   */
+  private getKey(method: string, url: string): string {
+    let normalizedUrl = url;
+    if (!this.options.matchQuery) {
+      try {
+        const parsed = new URL(url);
+        normalizedUrl = `${parsed.origin}${parsed.pathname}`;
+      } catch {
+        normalizedUrl = url.split('?')[0];
+      }
+    }
+    return `${method.toUpperCase()} ${normalizedUrl}`;
+  }
+
+  /**
+   * Normalize a body so parsed and raw JSON compare equal
+   */
+  private normalizeBody(body?: string | object): string {
+    if (body === undefined || body === null) return '';
+    if (typeof body !== 'string') return JSON.stringify(body);
+
+    try {
+      return JSON.stringify(JSON.parse(body));
+    } catch {
+      return body;
+    }
+  }
+
+  /**
+   * Strip encoding headers that no longer describe the replayed body
+   */
+  private getReplayHeaders(headers: Record<string, string>): Record<string, string> {
+    return Object.fromEntries(
+      Object.entries(headers).filter(([name]) => !HOP_BY_HOP_HEADERS.includes(name.toLowerCase()))
+    );
+  }
+
+  /**
+   * Serialize a recorded body for route.fulfill
+   */
+  private getReplayBody(body?: string | object): string {
+    if (body === undefined || body === null) return '';
+    return typeof body === 'string' ? body : JSON.stringify(body);
+  }
+}
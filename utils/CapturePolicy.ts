@@ -0,0 +1,232 @@
+import { Env, envConfig } from '../config/env';
+
+/**
+ * Path rule: glob string (`*` within a segment, `**` across segments) or regex
+ */
+export type PathRule = string | RegExp;
+
+/**
+ * Capture policy configuration
+ */
+export interface CapturePolicyConfig {
+  /** Only capture requests to these hosts (subdomains included) */
+  includeHosts?: string[];
+  /** Never capture requests to these hosts (subdomains included) */
+  excludeHosts?: string[];
+  /** Capture requests whose path matches one of these rules */
+  includePaths?: PathRule[];
+  /** Never capture requests whose path matches one of these rules */
+  excludePaths?: PathRule[];
+  /** Capture these Playwright resource types (request.resourceType()) */
+  resourceTypes?: string[];
+  /** Never capture these Playwright resource types */
+  excludeResourceTypes?: string[];
+  /** HTTP methods to capture (default: GET, POST, PUT, PATCH, DELETE) */
+  methods?: string[];
+  /**
+   * Fall back to the URL heuristic when no include path or resource type rule is set
+   * (default: true)
+   */
+  useHeuristic?: boolean;
+}
+
+/**
+ * Request details the policy is evaluated against
+ */
+export interface CaptureCandidate {
+  url: string;
+  method: string;
+  resourceType: string;
+}
+
+/**
+ * Policy decision; `rule` names the rule that matched (or rejected) the request
+ */
+export interface CaptureDecision {
+  capture: boolean;
+  rule: string;
+}
+
+/**
+ * Named capture policy presets
+ */
+export type CapturePolicyPreset = 'legacy' | 'first-party' | 'api-only';
+
+const DEFAULT_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+const API_RESOURCE_TYPES = ['fetch', 'xhr', 'eventsource', 'websocket'];
+const STATIC_EXTENSIONS = ['.js', '.css', '.png', '.jpg', '.jpeg', '.gif', '.svg', '.ico', '.woff', '.woff2', '.ttf', '.eot', '.map'];
+const BROWSER_INTERNAL_PREFIXES = ['chrome-extension://', 'moz-extension://', 'data:', 'blob:', 'chrome://', 'about:'];
+const STATIC_PATHS = ['/assets/', '/static/', '/images/', '/fonts/', '/css/', '/js/'];
+const API_PATTERNS = [/\/api\//i, /\/graphql/i, /\/rest\//i, /\/v\d+\//i, /\.json$/i, /\/ajax\//i, /\/endpoint\//i];
+
+/**
+ * Capture Policy
+ * Decides which requests ApiCapture records and tags each with the rule that matched
+ */
+export class CapturePolicy {
+  private readonly config: CapturePolicyConfig;
+  private readonly methods: string[];
+
+  constructor(config: CapturePolicyConfig = {}) {
+    this.config = config;
+    this.methods = (config.methods || DEFAULT_METHODS).map(method => method.toUpperCase());
+  }
+
+  /**
+   * Build a policy from a named preset
+   * @param preset - Preset name
+   * @param hosts - First-party hosts for the 'first-party' preset (default: host of envConfig.baseUrl)
+   */
+  static fromPreset(preset: CapturePolicyPreset, hosts?: string[]): CapturePolicy {
+    switch (preset) {
+      case 'first-party':
+        return new CapturePolicy({
+          includeHosts: hosts && hosts.length > 0 ? hosts : [CapturePolicy.getBaseHost()],
+          resourceTypes: API_RESOURCE_TYPES,
+          useHeuristic: false,
+        });
+      case 'api-only':
+        return new CapturePolicy({ resourceTypes: API_RESOURCE_TYPES, useHeuristic: false });
+      case 'legacy':
+      default:
+        return new CapturePolicy();
+    }
+  }
+
+  /**
+   * Build a policy from environment configuration:
+   * API_CAPTURE_POLICY (preset), API_CAPTURE_INCLUDE_HOSTS, API_CAPTURE_EXCLUDE_HOSTS,
+   * API_CAPTURE_INCLUDE_PATHS, API_CAPTURE_EXCLUDE_PATHS, API_CAPTURE_RESOURCE_TYPES (comma-separated)
+   */
+  static fromEnv(): CapturePolicy {
+    const list = (key: string) => Env.get(key).split(',').map(item => item.trim()).filter(Boolean);
+    const preset = Env.get('API_CAPTURE_POLICY', 'legacy') as CapturePolicyPreset;
+    const includeHosts = list('API_CAPTURE_INCLUDE_HOSTS');
+
+    const base = CapturePolicy.fromPreset(preset, includeHosts).config;
+    const overrides: CapturePolicyConfig = {};
+    if (includeHosts.length > 0) overrides.includeHosts = includeHosts;
+    if (list('API_CAPTURE_EXCLUDE_HOSTS').length > 0) overrides.excludeHosts = list('API_CAPTURE_EXCLUDE_HOSTS');
+    if (list('API_CAPTURE_INCLUDE_PATHS').length > 0) overrides.includePaths = list('API_CAPTURE_INCLUDE_PATHS');
+    if (list('API_CAPTURE_EXCLUDE_PATHS').length > 0) overrides.excludePaths = list('API_CAPTURE_EXCLUDE_PATHS');
+    if (list('API_CAPTURE_RESOURCE_TYPES').length > 0) overrides.resourceTypes = list('API_CAPTURE_RESOURCE_TYPES');
+
+    return new CapturePolicy({ ...base, ...overrides });
+  }
+
+  /**
+   * URL heuristic used by the legacy policy: anything that is not a static asset
+   * or browser-internal URL
+   */
+  static isApiUrl(url: string): boolean {
+    const urlLower = url.toLowerCase();
+    const hasStaticExtension = STATIC_EXTENSIONS.some(ext => urlLower.includes(ext));
+    const isBrowserInternal = BROWSER_INTERNAL_PREFIXES.some(prefix => url.startsWith(prefix));
+    const isStaticPath = STATIC_PATHS.some(staticPath => urlLower.includes(staticPath));
+
+    if (hasStaticExtension || isBrowserInternal || isStaticPath) {
+      return false;
+    }
+
+    return API_PATTERNS.some(pattern => pattern.test(url)) || /^https?:\/\//.test(url);
+  }
+
+  /**
+   * Evaluate a request against the policy
+   */
+  evaluate(candidate: CaptureCandidate): CaptureDecision {
+    const method = candidate.method.toUpperCase();
+    if (!this.methods.includes(method)) {
+      return { capture: false, rule: `method:${method}` };
+    }
+
+    let host = '';
+    let pathname = '';
+    try {
+      const url = new URL(candidate.url);
+      host = url.host;
+      pathname = url.pathname;
+    } catch {
+      return { capture: false, rule: 'invalid-url' };
+    }
+
+    const excludedHost = (this.config.excludeHosts || []).find(rule => this.matchesHost(host, rule));
+    if (excludedHost) {
+      return { capture: false, rule: `exclude-host:${excludedHost}` };
+    }
+
+    const includeHosts = this.config.includeHosts || [];
+    const includedHost = includeHosts.find(rule => this.matchesHost(host, rule));
+    if (includeHosts.length > 0 && !includedHost) {
+      return { capture: false, rule: 'include-host:none' };
+    }
+
+    const excludedPath = (this.config.excludePaths || []).find(rule => this.matchesPath(pathname, rule));
+    if (excludedPath) {
+      return { capture: false, rule: `exclude-path:${excludedPath}` };
+    }
+
+    if ((this.config.excludeResourceTypes || []).includes(candidate.resourceType)) {
+      return { capture: false, rule: `exclude-resource-type:${candidate.resourceType}` };
+    }
+
+    const includedPath = (this.config.includePaths || []).find(rule => this.matchesPath(pathname, rule));
+    if (includedPath) {
+      return { capture: true, rule: `path:${includedPath}` };
+    }
+
+    if ((this.config.resourceTypes || []).includes(candidate.resourceType)) {
+      return { capture: true, rule: `resource-type:${candidate.resourceType}` };
+    }
+
+    const hasExplicitRules = (this.config.includePaths || []).length > 0 || (this.config.resourceTypes || []).length > 0;
+    if (hasExplicitRules || this.config.useHeuristic === false) {
+      if (!hasExplicitRules && includedHost) {
+        return { capture: true, rule: `host:${includedHost}` };
+      }
+      return { capture: false, rule: 'no-match' };
+    }
+
+    return CapturePolicy.isApiUrl(candidate.url)
+      ? { capture: true, rule: includedHost ? `host:${includedHost}+heuristic` : 'heuristic' }
+      : { capture: false, rule: 'heuristic:static' };
+  }
+
+  /**
+   * Host rule match (exact host or any subdomain)
+   */
+  private matchesHost(host: string, rule: string): boolean {
+    const normalized = rule.toLowerCase().replace(/^\*\./, '');
+    const hostLower = host.toLowerCase();
+    return hostLower === normalized || hostLower.endsWith(`.${normalized}`);
+  }
+
+  /**
+   * Path rule match (glob or regex)
+   */
+  private matchesPath(pathname: string, rule: PathRule): boolean {
+    if (rule instanceof RegExp) {
+      return rule.test(pathname);
+    }
+
+    const pattern = rule
+      .split('**')
+      .map(part => part
+        .split('*')
+        .map(segment => segment.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+        .join('[^/]*'))
+      .join('.*');
+    return new RegExp(`^${pattern}$`).test(pathname);
+  }
+
+  /**
+   * Host of the configured base URL
+   */
+  private static getBaseHost(): string {
+    try {
+      return new URL(envConfig.baseUrl).host;
+    } catch {
+      return 'localhost';
+    }
+  }
+}
@@ -0,0 +1,215 @@
+import * as fs from 'fs';
+import type { ApiCall, ApiCaptureFile } from './ApiCapture';
+import type { RedactionSummary } from './Redactor';
+
+/**
+ * Stream size limits
+ */
+export interface CaptureStreamLimits {
+  /** Bodies larger than this are truncated (bytes, default: 256 KB) */
+  maxBodyBytes?: number;
+  /** Stop appending calls once the file reaches this size (bytes, default: 50 MB) */
+  maxFileBytes?: number;
+}
+
+/**
+ * First line of every stream file
+ */
+interface StreamHeaderLine {
+  _type: 'header';
+  testName: string;
+  startedAt: string;
+  redaction?: RedactionSummary;
+}
+
+/**
+ * Written once when the file size cap is reached
+ */
+interface StreamCappedLine {
+  _type: 'capped';
+  timestamp: string;
+  maxFileBytes: number;
+}
+
+/**
+ * Content types whose bodies are kept as text
+ */
+const TEXT_CONTENT_TYPES = ['json', 'text/', 'xml', 'javascript', 'x-www-form-urlencoded', 'graphql'];
+
+/**
+ * Capture Stream Writer
+ * Appends one NDJSON line per completed ApiCall so a crashed worker loses nothing,
+ * and compacts a stream back into the regular capture file format
+ */
+export class CaptureStreamWriter {
+  private readonly filePath: string;
+  private readonly maxBodyBytes: number;
+  private readonly maxFileBytes: number;
+  private bytesWritten = 0;
+  private callsWritten = 0;
+  private droppedCalls = 0;
+  private capped = false;
+
+  constructor(filePath: string, testName: string, limits: CaptureStreamLimits = {}, redaction?: RedactionSummary) {
+    this.filePath = filePath;
+    this.maxBodyBytes = limits.maxBodyBytes ?? 256 * 1024;
+    this.maxFileBytes = limits.maxFileBytes ?? 50 * 1024 * 1024;
+
+    // Start a fresh stream for this run
+    const header: StreamHeaderLine = {
+      _type: 'header',
+      testName,
+      startedAt: new Date().toISOString(),
+      redaction,
+    };
+    fs.writeFileSync(this.filePath, `${JSON.stringify(header)}\n`, 'utf-8');
+    this.bytesWritten = fs.statSync(this.filePath).size;
+  }
+
+  /**
+   * Append a completed call (bodies are truncated or skipped first)
+   * @returns false when the call was dropped because the file cap was reached
+   */
+  append(call: ApiCall): boolean {
+    if (this.capped) {
+      this.droppedCalls++;
+      return false;
+    }
+
+    const line = `${JSON.stringify(this.applyBodyLimits(call))}\n`;
+    const lineBytes = Buffer.byteLength(line);
+
+    if (this.bytesWritten + lineBytes > this.maxFileBytes) {
+      const marker: StreamCappedLine = {
+        _type: 'capped',
+        timestamp: new Date().toISOString(),
+        maxFileBytes: this.maxFileBytes,
+      };
+      fs.appendFileSync(this.filePath, `${JSON.stringify(marker)}\n`, 'utf-8');
+      this.capped = true;
+      this.droppedCalls++;
+      console.warn(`⚠️ [API CAPTURE] Stream file cap of ${this.maxFileBytes} bytes reached, dropping further calls`);
+      return false;
+    }
+
+    fs.appendFileSync(this.filePath, line, 'utf-8');
+    this.bytesWritten += lineBytes;
+    this.callsWritten++;
+    return true;
+  }
+
+  /**
+   * Stream statistics
+   */
+  getStats(): { callsWritten: number; droppedCalls: number; bytesWritten: number; capped: boolean } {
+    return {
+      callsWritten: this.callsWritten,
+      droppedCalls: this.droppedCalls,
+      bytesWritten: this.bytesWritten,
+      capped: this.capped,
+    };
+  }
+
+  /**
+   * Read every call in a stream file. A partially written last line (crash) is ignored.
+   */
+  static readCalls(filePath: string): ApiCall[] {
+    return this.readLines(filePath).calls;
+  }
+
+  /**
+   * Compact a stream file into the regular capture summary format
+   * @param filePath - NDJSON stream path
+   * @param testName - Test name (defaults to the one in the stream header)
+   */
+  static compact(filePath: string, testName?: string): ApiCaptureFile {
+    const { header, calls, capped } = this.readLines(filePath);
+
+    const methodCounts: Record<string, number> = {};
+    calls.forEach(call => {
+      methodCounts[call.method] = (methodCounts[call.method] || 0) + 1;
+    });
+
+    return {
+      testName: testName || header?.testName || '',
+      timestamp: new Date().toISOString(),
+      totalCalls: calls.length,
+      methodSummary: methodCounts,
+      redaction: header?.redaction,
+      ...(capped ? { capped: true } : {}),
+      apiCalls: calls,
+    };
+  }
+
+  private static readLines(filePath: string): { header?: StreamHeaderLine; calls: ApiCall[]; capped: boolean } {
+    const result: { header?: StreamHeaderLine; calls: ApiCall[]; capped: boolean } = { calls: [], capped: false };
+    if (!fs.existsSync(filePath)) return result;
+
+    const lines = fs.readFileSync(filePath, 'utf-8').split('\n').filter(line => line.trim().length > 0);
+    for (const line of lines) {
+      let parsed: any;
+      try {
+        parsed = JSON.parse(line);
+      } catch {
+        continue;
+      }
+
+      if (parsed._type === 'header') result.header = parsed;
+      else if (parsed._type === 'capped') result.capped = true;
+      else result.calls.push(parsed as ApiCall);
+    }
+
+    return result;
+  }
+
+  /**
+   * Truncate oversized bodies and skip binary ones, recording what was changed
+   */
+  private applyBodyLimits(call: ApiCall): ApiCall {
+    const limited: ApiCall = { ...call };
+    const requestType = this.getContentType(call.headers);
+    const responseType = this.getContentType(call.responseHeaders);
+
+    limited.postData = this.limitBody(call.postData, requestType, limited, 'postData');
+    limited.responseBody = this.limitBody(call.responseBody, responseType, limited, 'responseBody');
+    return limited;
+  }
+
+  private limitBody(
+    body: string | object | undefined,
+    contentType: string,
+    call: ApiCall,
+    field: 'postData' | 'responseBody'
+  ): string | object | undefined {
+    if (body === undefined || body === null) return body;
+
+    const text = typeof body === 'string' ? body : JSON.stringify(body);
+    const size = Buffer.byteLength(text);
+
+    if (typeof body === 'string' && this.isBinary(text, contentType)) {
+      call.bodyLimits = { ...call.bodyLimits, [field]: { skipped: 'binary', originalBytes: size } };
+      return undefined;
+    }
+
+    if (size > this.maxBodyBytes) {
+      call.bodyLimits = { ...call.bodyLimits, [field]: { truncated: true, originalBytes: size } };
+      return `${Buffer.from(text).subarray(0, this.maxBodyBytes).toString('utf-8')}…[truncated ${size - this.maxBodyBytes} bytes]`;
+    }
+
+    return body;
+  }
+
+  private isBinary(text: string, contentType: string): boolean {
+    if (contentType && !TEXT_CONTENT_TYPES.some(type => contentType.includes(type))) {
+      return true;
+    }
+    // Control characters other than whitespace indicate binary content
+    return /[\x00-\x08\x0E-\x1F]/.test(text.substring(0, 1024));
+  }
+
+  private getContentType(headers?: Record<string, string>): string {
+    if (!headers) return '';
+    const key = Object.keys(headers).find(header => header.toLowerCase() === 'content-type');
+    return key ? headers[key].toLowerCase() : '';
+  }
+}
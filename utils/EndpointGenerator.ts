@@ -0,0 +1,311 @@
+import { ApiCall, ApiCaptureFile } from './ApiCapture';
+import { EndpointPath } from './EndpointPath';
+import { SchemaInference } from './SchemaInference';
+import type { JsonSchema } from '../api/helpers/JsonSchemaValidator';
+
+/**
+ * Generator options
+ */
+export interface EndpointGeneratorOptions {
+  /** Host to generate endpoints for (default: the host with the most calls) */
+  host?: string;
+  /** Name of the generated endpoints constant (default: CapturedEndpoints) */
+  endpointsName?: string;
+  /** Name of the generated client class (default: CapturedApiClient) */
+  clientName?: string;
+  /** Module path the generated file imports ApiClient from (default: ../client/ApiClient) */
+  apiClientImport?: string;
+}
+
+/**
+ * One parameterised endpoint observed in the captures
+ */
+export interface GeneratedEndpoint {
+  group: string;
+  key: string;
+  /** Path template with `{param}` placeholders */
+  template: string;
+  params: string[];
+  methods: Record<string, { samples: number; schema?: JsonSchema }>;
+  examples: string[];
+}
+
+/**
+ * Endpoint Generator
+ * Proposes Endpoints entries, response interfaces and a typed client from captured traffic
+ */
+export class EndpointGenerator {
+  /**
+   * Build parameterised endpoint models from capture files
+   * @param captures - Parsed capture files
+   * @param options - Generator options
+   * @returns Endpoints sorted by group and key
+   */
+  static analyze(captures: ApiCaptureFile[], options: EndpointGeneratorOptions = {}): GeneratedEndpoint[] {
+    const calls = captures.flatMap(capture => capture.apiCalls);
+    const host = options.host || this.getPrimaryHost(calls);
+    const endpoints = new Map<string, GeneratedEndpoint>();
+
+    calls.forEach(call => {
+      let url: URL;
+      try {
+        url = new URL(call.url);
+      } catch {
+        return;
+      }
+      if (url.host !== host) return;
+
+      const { template, params, statics } = EndpointPath.parameterise(url.pathname);
+      const endpoint = endpoints.get(template) || {
+        group: '',
+        key: '',
+        template,
+        params,
+        methods: {},
+        examples: [],
+      };
+
+      if (!endpoint.group) {
+        const naming = this.nameEndpoint(statics, params, template);
+        endpoint.group = naming.group;
+        endpoint.key = naming.key;
+      }
+
+      const method = endpoint.methods[call.method] || { samples: 0 };
+      if (call.responseBody !== null && typeof call.responseBody === 'object' &&
+        call.status !== undefined && call.status >= 200 && call.status < 300) {
+        const sample = SchemaInference.inferValue(call.responseBody);
+        method.schema = method.schema ? SchemaInference.merge(method.schema, sample) : sample;
+      }
+      method.samples++;
+      endpoint.methods[call.method] = method;
+
+      if (endpoint.examples.length < 3 && !endpoint.examples.includes(url.pathname)) {
+        endpoint.examples.push(url.pathname);
+      }
+      endpoints.set(template, endpoint);
+    });
+
+    return this.resolveKeyCollisions([...endpoints.values()])
+      .sort((a, b) => `${a.group}.${a.key}`.localeCompare(`${b.group}.${b.key}`));
+  }
+
+  /**
+   * Generate a TypeScript module with the endpoints constant, response interfaces and client
+   * @param endpoints - Analyzed endpoints
+   * @param options - Generator options
+   * @returns TypeScript source
+   */
+  static generate(endpoints: GeneratedEndpoint[], options: EndpointGeneratorOptions = {}): string {
+    const endpointsName = options.endpointsName || 'CapturedEndpoints';
+    const clientName = options.clientName || 'CapturedApiClient';
+    const lines: string[] = [];
+
+    lines.push(`import { ApiClient, ApiRequestOptions, ApiResponse } from '${options.apiClientImport || '../client/ApiClient'}';`);
+    lines.push('');
+    lines.push('/**');
+    lines.push(' * Captured API Endpoints');
+    lines.push(' * ');
+    lines.push(` * Generated from apis-testcases captures${options.host ? ` for ${options.host}` : ''}.`);
+    lines.push(' * Review and move the entries you need into api/endpoints/Endpoints.ts');
+    lines.push(' */');
+    lines.push(`export const ${endpointsName} = {`);
+
+    const groups = this.groupBy(endpoints);
+    groups.forEach((groupEndpoints, group) => {
+      lines.push(`  ${group}: {`);
+      groupEndpoints.forEach(endpoint => {
+        lines.push(`    // ${Object.keys(endpoint.methods).join(', ')} e.g. ${endpoint.examples[0]}`);
+        lines.push(`    ${endpoint.key}: ${this.endpointValue(endpoint)},`);
+      });
+      lines.push('  },');
+      lines.push('');
+    });
+    if (groups.size > 0) lines.pop();
+    lines.push('} as const;');
+
+    endpoints.forEach(endpoint => {
+      Object.entries(endpoint.methods).forEach(([method, { samples, schema }]) => {
+        lines.push('');
+        lines.push('/**');
+        lines.push(` * ${method} ${endpoint.template} response (${samples} sample(s))`);
+        lines.push(' */');
+        const typeName = this.typeName(endpoint, method);
+        if (schema && schema.type === 'object') {
+          lines.push(`export interface ${typeName} ${this.schemaToType(schema, 0)}`);
+        } else {
+          lines.push(`export type ${typeName} = ${schema ? this.schemaToType(schema, 0) : 'unknown'};`);
+        }
+      });
+    });
+
+    lines.push('');
+    lines.push('/**');
+    lines.push(' * Typed client for the captured endpoints');
+    lines.push(' */');
+    lines.push(`export class ${clientName} {`);
+    lines.push('  constructor(private readonly client: ApiClient) {}');
+    endpoints.forEach(endpoint => {
+      Object.keys(endpoint.methods).forEach(method => {
+        lines.push('');
+        lines.push(...this.clientMethod(endpoint, method, endpointsName));
+      });
+    });
+    lines.push('}');
+    lines.push('');
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Group and key names for an endpoint (first static segment is the group)
+   */
+  private static nameEndpoint(statics: string[], params: string[], template: string): { group: string; key: string } {
+    if (statics.length === 0) {
+      return { group: template === '/' ? 'ROOT' : 'RESOURCES', key: params.length > 0 ? 'DETAIL' : 'BASE' };
+    }
+
+    const group = this.constantName(statics[0]);
+    const rest = statics.slice(1).map(segment => this.constantName(segment));
+    const endsWithParam = /\}(\.\w+)?$/.test(template);
+
+    if (rest.length === 0) return { group, key: endsWithParam ? 'DETAIL' : 'BASE' };
+    return { group, key: endsWithParam ? `${rest.join('_')}_DETAIL` : rest.join('_') };
+  }
+
+  /**
+   * Make keys unique within a group by appending the file extension or a counter
+   */
+  private static resolveKeyCollisions(endpoints: GeneratedEndpoint[]): GeneratedEndpoint[] {
+    const seen = new Map<string, number>();
+
+    endpoints
+      .sort((a, b) => a.template.localeCompare(b.template))
+      .forEach(endpoint => {
+        const id = `${endpoint.group}.${endpoint.key}`;
+        const count = seen.get(id) || 0;
+        seen.set(id, count + 1);
+        if (count > 0) {
+          const extension = endpoint.template.match(/\.(js|json|xml)$/);
+          endpoint.key = extension ? `${endpoint.key}_${extension[1].toUpperCase()}` : `${endpoint.key}_${count + 1}`;
+        }
+      });
+
+    return endpoints;
+  }
+
+  private static endpointValue(endpoint: GeneratedEndpoint): string {
+    if (endpoint.params.length === 0) {
+      return `'${endpoint.template}'`;
+    }
+
+    const args = endpoint.params.map(param => `${param}: string`).join(', ');
+    const path = endpoint.template.replace(/\{(\w+)\}/g, (_, param) => `\${${param}}`);
+    return `(${args}) => \`${path}\``;
+  }
+
+  private static clientMethod(endpoint: GeneratedEndpoint, method: string, endpointsName: string): string[] {
+    const methodName = this.methodName(endpoint, method);
+    const typeName = this.typeName(endpoint, method);
+    const params = endpoint.params.map(param => `${param}: string`);
+    const hasBody = ['POST', 'PUT', 'PATCH'].includes(method);
+    const signature = [...params, ...(hasBody ? ['data?: any'] : []), 'options?: ApiRequestOptions'].join(', ');
+    const endpointRef = `${endpointsName}.${endpoint.group}.${endpoint.key}${endpoint.params.length > 0 ? `(${endpoint.params.join(', ')})` : ''}`;
+    const call = `this.client.request<${typeName}>(${endpointRef}, { ...options, method: '${method}'${hasBody ? ', data' : ''} })`;
+
+    return [
+      '  /**',
+      `   * ${method} ${endpoint.template}`,
+      '   */',
+      `  async ${methodName}(${signature}): Promise<ApiResponse<${typeName}>> {`,
+      `    return ${call};`,
+      '  }',
+    ];
+  }
+
+  /**
+   * Convert an inferred schema into a TypeScript type expression
+   */
+  private static schemaToType(schema: JsonSchema, depth: number): string {
+    if (schema.anyOf) {
+      return schema.anyOf.map(option => this.schemaToType(option, depth)).join(' | ');
+    }
+
+    switch (schema.type) {
+      case 'string':
+        return 'string';
+      case 'integer':
+      case 'number':
+        return 'number';
+      case 'boolean':
+        return 'boolean';
+      case 'null':
+        return 'null';
+      case 'array': {
+        if (!schema.items) return 'any[]';
+        const itemType = this.schemaToType(schema.items, depth);
+        return schema.items.anyOf ? `Array<${itemType}>` : `${itemType}[]`;
+      }
+      case 'object': {
+        const entries = Object.entries(schema.properties || {});
+        if (entries.length === 0) return 'Record<string, any>';
+        const indent = '  '.repeat(depth + 1);
+        const required = schema.required || [];
+        const fields = entries.map(([name, property]) => {
+          const key = /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : `'${name.replace(/'/g, "\\'")}'`;
+          return `${indent}${key}${required.includes(name) ? '' : '?'}: ${this.schemaToType(property, depth + 1)};`;
+        });
+        return `{\n${fields.join('\n')}\n${'  '.repeat(depth)}}`;
+      }
+      default:
+        return 'unknown';
+    }
+  }
+
+  private static typeName(endpoint: GeneratedEndpoint, method: string): string {
+    const methodPrefix = Object.keys(endpoint.methods).length > 1 ? this.pascalCase(method.toLowerCase()) : '';
+    return `${methodPrefix}${this.pascalCase(`${endpoint.group}_${endpoint.key}`)}Response`;
+  }
+
+  private static methodName(endpoint: GeneratedEndpoint, method: string): string {
+    const name = this.pascalCase(`${endpoint.group}_${endpoint.key}`);
+    return `${method.toLowerCase()}${name}`;
+  }
+
+  private static groupBy(endpoints: GeneratedEndpoint[]): Map<string, GeneratedEndpoint[]> {
+    const groups = new Map<string, GeneratedEndpoint[]>();
+    endpoints.forEach(endpoint => {
+      const group = groups.get(endpoint.group) || [];
+      group.push(endpoint);
+      groups.set(endpoint.group, group);
+    });
+    return groups;
+  }
+
+  private static getPrimaryHost(calls: ApiCall[]): string {
+    const counts = new Map<string, number>();
+    calls.forEach(call => {
+      try {
+        const host = new URL(call.url).host;
+        counts.set(host, (counts.get(host) || 0) + 1);
+      } catch {
+        // Skip invalid URLs
+      }
+    });
+    return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] || '';
+  }
+
+  private static constantName(segment: string): string {
+    const name = segment.replace(/[^a-zA-Z0-9]+/g, '_').replace(/^_+|_+$/g, '').toUpperCase();
+    return /^\d/.test(name) ? `_${name}` : name || 'ROOT';
+  }
+
+  private static pascalCase(value: string): string {
+    return value
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter(Boolean)
+      .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+      .join('');
+  }
+}
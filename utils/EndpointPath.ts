@@ -0,0 +1,91 @@
+/**
+ * Path with identifier segments replaced by named parameters
+ */
+export interface ParameterisedPath {
+  /** Path template with `{param}` placeholders */
+  template: string;
+  params: string[];
+  /** Segments kept as-is, in order */
+  statics: string[];
+}
+
+/**
+ * Segments that are followed by an identifier or handle on Shopify and REST routes
+ */
+const RESOURCE_SEGMENTS = [
+  'products', 'collections', 'pages', 'blogs', 'articles', 'orders',
+  'variants', 'customers', 'users', 'items', 'addresses', 'quizzes', 'results',
+];
+
+/**
+ * Endpoint Path
+ * Collapses IDs and handles in URL paths so calls to the same endpoint share one key
+ */
+export class EndpointPath {
+  /**
+   * Replace identifier segments with named parameters
+   * (/products/123.json -> /products/{productId}.json)
+   */
+  static parameterise(pathname: string): ParameterisedPath {
+    const segments = pathname.split('/').filter(Boolean);
+    const params: string[] = [];
+    const statics: string[] = [];
+
+    const templateSegments = segments.map((segment, index) => {
+      const extensionMatch = index === segments.length - 1 ? segment.match(/^(.+?)(\.(?:js|json|xml))$/) : null;
+      const base = extensionMatch ? extensionMatch[1] : segment;
+      const extension = extensionMatch ? extensionMatch[2] : '';
+      const previous = index > 0 ? segments[index - 1].toLowerCase() : '';
+      const paramName = this.getParamName(base, previous, params);
+
+      if (paramName) {
+        params.push(paramName);
+        return `{${paramName}}${extension}`;
+      }
+
+      statics.push(base);
+      return segment;
+    });
+
+    return { template: `/${templateSegments.join('/')}`, params, statics };
+  }
+
+  /**
+   * Endpoint key for a call (GET https://shop.test/products/123.js -> GET shop.test/products/{productId}.js)
+   */
+  static getEndpointKey(method: string, url: string): string {
+    try {
+      const parsed = new URL(url);
+      return `${method} ${parsed.host}${this.parameterise(parsed.pathname).template}`;
+    } catch {
+      return `${method} ${this.parameterise(url.split('?')[0]).template}`;
+    }
+  }
+
+  /**
+   * Decide whether a segment is an identifier and name it
+   */
+  private static getParamName(segment: string, previous: string, existing: string[]): string | null {
+    const isNumeric = /^\d+$/.test(segment);
+    const isUuid = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(segment);
+    const isHash = /^[0-9a-f]{16,}$/i.test(segment);
+    const followsResource = RESOURCE_SEGMENTS.includes(previous);
+
+    if (!isNumeric && !isUuid && !isHash && !followsResource) return null;
+
+    const resource = followsResource ? this.singular(previous) : 'resource';
+    let name = `${resource}${isNumeric || isUuid || isHash ? 'Id' : 'Handle'}`;
+    let suffix = 2;
+    while (existing.includes(name)) {
+      name = `${resource}Id${suffix++}`;
+    }
+    return name;
+  }
+
+  private static singular(word: string): string {
+    if (word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+    if (word.endsWith('sses')) return word.slice(0, -2);
+    if (word.endsWith('s')) return word.slice(0, -1);
+    return word;
+  }
+}
@@ -0,0 +1,336 @@
+import * as fs from 'fs';
+import type { ApiCall } from './ApiCapture';
+
+/**
+ * HAR 1.2 name/value pair (headers, query string, cookies)
+ */
+export interface HarNameValue {
+  name: string;
+  value: string;
+}
+
+/**
+ * HAR 1.2 cookie
+ */
+export interface HarCookie extends HarNameValue {
+  path?: string;
+  domain?: string;
+  expires?: string;
+  httpOnly?: boolean;
+  secure?: boolean;
+}
+
+/**
+ * HAR 1.2 request
+ */
+export interface HarRequest {
+  method: string;
+  url: string;
+  httpVersion: string;
+  cookies: HarCookie[];
+  headers: HarNameValue[];
+  queryString: HarNameValue[];
+  postData?: {
+    mimeType: string;
+    text: string;
+  };
+  headersSize: number;
+  bodySize: number;
+}
+
+/**
+ * HAR 1.2 response
+ */
+export interface HarResponse {
+  status: number;
+  statusText: string;
+  httpVersion: string;
+  cookies: HarCookie[];
+  headers: HarNameValue[];
+  content: {
+    size: number;
+    mimeType: string;
+    text?: string;
+  };
+  redirectURL: string;
+  headersSize: number;
+  bodySize: number;
+}
+
+/**
+ * HAR 1.2 timings (milliseconds, -1 when not applicable)
+ */
+export interface HarTimings {
+  blocked: number;
+  dns: number;
+  connect: number;
+  ssl: number;
+  send: number;
+  wait: number;
+  receive: number;
+}
+
+/**
+ * HAR 1.2 entry
+ */
+export interface HarEntry {
+  startedDateTime: string;
+  time: number;
+  request: HarRequest;
+  response: HarResponse;
+  cache: Record<string, never>;
+  timings: HarTimings;
+  comment?: string;
+}
+
+/**
+ * HAR 1.2 document
+ */
+export interface HarLog {
+  log: {
+    version: '1.2';
+    creator: { name: string; version: string };
+    pages: Array<{
+      startedDateTime: string;
+      id: string;
+      title: string;
+      pageTimings: { onContentLoad: number; onLoad: number };
+    }>;
+    entries: Array<HarEntry & { pageref: string }>;
+  };
+}
+
+/**
+ * HAR Exporter
+ * Converts captured ApiCall records into a HAR 1.2 document that can be
+ * opened in browser devtools, Charles and other HAR viewers
+ */
+export class HarExporter {
+  private static readonly CREATOR = { name: 'myformulai-api-capture', version: '1.0' };
+  private static readonly HTTP_VERSION = 'HTTP/1.1';
+
+  /**
+   * Build a HAR document from captured API calls
+   * @param testName - Name of the test case (used as the HAR page title)
+   * @param apiCalls - Captured API calls
+   * @returns HAR 1.2 document
+   */
+  static toHar(testName: string, apiCalls: ApiCall[]): HarLog {
+    const pageId = 'page_1';
+    const firstTimestamp = apiCalls.length > 0
+      ? Math.min(...apiCalls.map(call => call.timestamp))
+      : Date.now();
+
+    return {
+      log: {
+        version: '1.2',
+        creator: this.CREATOR,
+        pages: [
+          {
+            startedDateTime: new Date(firstTimestamp).toISOString(),
+            id: pageId,
+            title: testName,
+            pageTimings: { onContentLoad: -1, onLoad: -1 },
+          },
+        ],
+        entries: apiCalls.map(call => ({ pageref: pageId, ...this.toEntry(call) })),
+      },
+    };
+  }
+
+  /**
+   * Write a HAR document for the given calls
+   * @param filePath - Destination .har file path
+   * @param testName - Name of the test case
+   * @param apiCalls - Captured API calls
+   */
+  static save(filePath: string, testName: string, apiCalls: ApiCall[]): void {
+    fs.writeFileSync(filePath, JSON.stringify(this.toHar(testName, apiCalls), null, 2), 'utf-8');
+  }
+
+  /**
+   * Convert a single ApiCall into a HAR entry
+   */
+  static toEntry(call: ApiCall): HarEntry {
+    const requestHeaders = call.headers || {};
+    const responseHeaders = call.responseHeaders || {};
+    const requestBody = this.stringifyBody(call.postData);
+    const responseBody = this.stringifyBody(call.responseBody);
+    const timings = this.toTimings(call);
+
+    const request: HarRequest = {
+      method: call.method,
+      url: call.url,
+      httpVersion: this.HTTP_VERSION,
+      cookies: this.parseCookieHeader(this.getHeader(requestHeaders, 'cookie')),
+      headers: this.toNameValues(requestHeaders),
+      queryString: this.parseQueryString(call.url),
+      headersSize: -1,
+      bodySize: requestBody !== undefined ? Buffer.byteLength(requestBody) : 0,
+    };
+
+    if (requestBody !== undefined) {
+      request.postData = {
+        mimeType: this.getHeader(requestHeaders, 'content-type') || 'application/octet-stream',
+        text: requestBody,
+      };
+    }
+
+    const response: HarResponse = {
+      status: call.status ?? 0,
+      statusText: call.statusText || '',
+      httpVersion: this.HTTP_VERSION,
+      cookies: this.parseSetCookieHeader(this.getHeader(responseHeaders, 'set-cookie')),
+      headers: this.toNameValues(responseHeaders),
+      content: {
+        size: responseBody !== undefined ? Buffer.byteLength(responseBody) : 0,
+        mimeType: this.getHeader(responseHeaders, 'content-type') || 'x-unknown',
+        text: responseBody,
+      },
+      redirectURL: call.redirectedTo || this.getHeader(responseHeaders, 'location') || '',
+      headersSize: -1,
+      bodySize: -1,
+    };
+
+    const entry: HarEntry = {
+      startedDateTime: new Date(call.timestamp).toISOString(),
+      time: this.totalTime(timings),
+      request,
+      response,
+      cache: {},
+      timings,
+    };
+
+    if (call.failure) {
+      entry.comment = `Request failed: ${call.failure}`;
+    }
+
+    return entry;
+  }
+
+  /**
+   * Build HAR timings from the recorded request.timing() breakdown.
+   * Older captures only have a total duration, which is reported as server wait time.
+   */
+  private static toTimings(call: ApiCall): HarTimings {
+    if (call.timing) {
+      const { dns, connect, tls, ttfb, download } = call.timing;
+      return {
+        blocked: -1,
+        dns,
+        connect,
+        ssl: tls,
+        send: 0,
+        wait: Math.max(ttfb, 0),
+        receive: Math.max(download, 0),
+      };
+    }
+
+    return {
+      blocked: -1,
+      dns: -1,
+      connect: -1,
+      ssl: -1,
+      send: 0,
+      wait: call.duration ?? 0,
+      receive: 0,
+    };
+  }
+
+  /**
+   * Sum the applicable timing phases (HAR excludes -1 values and counts ssl inside connect)
+   */
+  private static totalTime(timings: HarTimings): number {
+    return Object.entries(timings)
+      .filter(([phase, value]) => phase !== 'ssl' && value > 0)
+      .reduce((sum, [, value]) => sum + value, 0);
+  }
+
+  /**
+   * Convert a header map into HAR name/value pairs.
+   * Multi-value headers joined with newlines by Playwright are split back out.
+   */
+  private static toNameValues(headers: Record<string, string>): HarNameValue[] {
+    return Object.entries(headers).flatMap(([name, value]) =>
+      String(value).split('\n').map(part => ({ name, value: part }))
+    );
+  }
+
+  /**
+   * Case-insensitive header lookup
+   */
+  private static getHeader(headers: Record<string, string>, name: string): string | undefined {
+    const key = Object.keys(headers).find(header => header.toLowerCase() === name);
+    return key ? headers[key] : undefined;
+  }
+
+  /**
+   * Parse query string parameters from a URL
+   */
+  private static parseQueryString(url: string): HarNameValue[] {
+    try {
+      return Array.from(new URL(url).searchParams.entries()).map(([name, value]) => ({ name, value }));
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Parse a request Cookie header (name=value; name2=value2)
+   */
+  private static parseCookieHeader(header?: string): HarCookie[] {
+    if (!header) return [];
+
+    return header
+      .split(';')
+      .map(pair => pair.trim())
+      .filter(pair => pair.length > 0)
+      .map(pair => {
+        const index = pair.indexOf('=');
+        return index === -1
+          ? { name: pair, value: '' }
+          : { name: pair.substring(0, index), value: pair.substring(index + 1) };
+      });
+  }
+
+  /**
+   * Parse response Set-Cookie header(s), one cookie per line
+   */
+  private static parseSetCookieHeader(header?: string): HarCookie[] {
+    if (!header) return [];
+
+    return header
+      .split('\n')
+      .filter(line => line.trim().length > 0)
+      .map(line => {
+        const [pair, ...attributes] = line.split(';').map(part => part.trim());
+        const index = pair.indexOf('=');
+        const cookie: HarCookie = index === -1
+          ? { name: pair, value: '' }
+          : { name: pair.substring(0, index), value: pair.substring(index + 1) };
+
+        for (const attribute of attributes) {
+          const [rawKey, ...rest] = attribute.split('=');
+          const key = rawKey.toLowerCase();
+          const value = rest.join('=');
+          if (key === 'path') cookie.path = value;
+          else if (key === 'domain') cookie.domain = value;
+          else if (key === 'expires') {
+            const expires = new Date(value);
+            if (!isNaN(expires.getTime())) cookie.expires = expires.toISOString();
+          } else if (key === 'httponly') cookie.httpOnly = true;
+          else if (key === 'secure') cookie.secure = true;
+        }
+
+        return cookie;
+      });
+  }
+
+  /**
+   * Serialize a captured body (parsed JSON or raw text) back to text
+   */
+  private static stringifyBody(body?: string | object): string | undefined {
+    if (body === undefined || body === null) return undefined;
+    return typeof body === 'string' ? body : JSON.stringify(body);
+  }
+}
@@ -0,0 +1,370 @@
+import { Env } from '../config/env';
+import type { ApiCall } from './ApiCapture';
+
+/**
+ * Named regex pattern applied to string values
+ */
+export interface RedactionPattern {
+  name: string;
+  pattern: RegExp;
+  /** Optional check on each match; only matches that pass are masked */
+  validate?: (match: string) => boolean;
+  /** Only apply to values under keys matching this (JSON keys and form or query parameter names) */
+  keys?: RegExp;
+  /** Also apply to URL paths (default: true); numeric IDs in paths can look like secrets */
+  inUrlPath?: boolean;
+}
+
+/**
+ * JSON paths left unmasked in bodies exchanged with matching URLs
+ */
+export interface RedactionExemption {
+  /** Tested against the request URL */
+  url: RegExp;
+  /** JSON paths kept as-is, in the same syntax as RedactionRules.jsonPaths */
+  jsonPaths: string[];
+}
+
+/**
+ * Redaction rules
+ */
+export interface RedactionRules {
+  /** Header names whose values are masked (case-insensitive) */
+  headers: string[];
+  /**
+   * JSON paths whose values are masked. Segments are separated by dots,
+   * `*` matches any single key or array index and a leading `**.` matches at any depth
+   * (e.g. `**.password`, `customer.email`, `items.*.token`)
+   */
+  jsonPaths: string[];
+  /** Patterns masked inside any string value, URL or raw body */
+  patterns: RedactionPattern[];
+  /** Replacement text for masked values */
+  replacement: string;
+  /** Exceptions to jsonPaths for specific endpoints */
+  exemptions: RedactionExemption[];
+}
+
+/**
+ * Serializable description of the rules applied, stored alongside written files
+ */
+export interface RedactionSummary {
+  replacement: string;
+  headers: string[];
+  jsonPaths: string[];
+  patterns: Array<{ name: string; source: string; flags: string; keys?: string; inUrlPath?: boolean }>;
+  exemptions?: Array<{ url: string; jsonPaths: string[] }>;
+}
+
+/**
+ * Luhn checksum, used to tell card numbers apart from long numeric IDs
+ */
+function passesLuhn(value: string): boolean {
+  const digits = value.replace(/\D/g, '');
+  let sum = 0;
+
+  for (let i = 0; i < digits.length; i++) {
+    let digit = parseInt(digits[digits.length - 1 - i], 10);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+
+  return sum % 10 === 0;
+}
+
+/**
+ * Default redaction rules
+ */
+export const DEFAULT_REDACTION_RULES: RedactionRules = {
+  headers: [
+    'authorization',
+    'proxy-authorization',
+    'cookie',
+    'set-cookie',
+    'x-api-key',
+    'x-auth-token',
+    'x-shopify-storefront-access-token',
+  ],
+  jsonPaths: [
+    '**.password',
+    '**.currentPassword',
+    '**.newPassword',
+    '**.email',
+    '**.token',
+    '**.accessToken',
+    '**.refreshToken',
+    '**.access_token',
+    '**.refresh_token',
+    '**.id_token',
+    '**.phone',
+  ],
+  patterns: [
+    { name: 'email', pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g },
+    // Bare digit runs are product/variant IDs and timestamps far more often than card numbers,
+    // so only grouped numbers or values under card-like keys are checked
+    {
+      name: 'card-number',
+      pattern: /\b(?:\d{4}([ -])\d{4}\1\d{4}\1\d{1,4}|\d{4}([ -])\d{6}\2\d{5})\b/g,
+      validate: match => passesLuhn(match),
+      inUrlPath: false,
+    },
+    {
+      name: 'card-number-field',
+      pattern: /^(?:\d[ -]?){12,18}\d$/,
+      validate: match => passesLuhn(match),
+      keys: /card|^pan$|number$/i,
+    },
+    { name: 'bearer-token', pattern: /\bBearer\s+[A-Za-z0-9\-._~+/]+=*/g },
+    { name: 'jwt', pattern: /\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/g },
+  ],
+  replacement: '[REDACTED]',
+  exemptions: [
+    // Shopify cart tokens are kept so captures and cassettes can correlate carts
+    { url: /\/cart(?:\/[a-z_]+)?\.js(?:[?#]|$)/, jsonPaths: ['token'] },
+  ],
+};
+
+/**
+ * Redactor
+ * Masks secrets and PII in captured traffic before it is written to disk
+ */
+export class Redactor {
+  private readonly rules: RedactionRules;
+  private readonly headerSet: Set<string>;
+  private readonly compiledPaths: string[][];
+
+  constructor(rules: Partial<RedactionRules> = {}) {
+    this.rules = { ...DEFAULT_REDACTION_RULES, ...rules };
+    this.headerSet = new Set(this.rules.headers.map(header => header.toLowerCase()));
+    this.compiledPaths = this.rules.jsonPaths.map(jsonPath => jsonPath.split('.'));
+  }
+
+  /**
+   * Create a redactor from environment configuration.
+   * REDACT_HEADERS and REDACT_PATHS (comma-separated) extend the defaults.
+   * Returns null when REDACTION_ENABLED=false.
+   */
+  static fromEnv(): Redactor | null {
+    if (!Env.getBoolean('REDACTION_ENABLED', true)) {
+      return null;
+    }
+
+    const splitList = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+
+    return new Redactor({
+      headers: [...DEFAULT_REDACTION_RULES.headers, ...splitList(Env.get('REDACT_HEADERS'))],
+      jsonPaths: [...DEFAULT_REDACTION_RULES.jsonPaths, ...splitList(Env.get('REDACT_PATHS'))],
+    });
+  }
+
+  /**
+   * Rebuild the redactor a capture was written with from its stored summary.
+   * Validators cannot be serialized, so patterns named like a default reuse its validator.
+   */
+  static fromSummary(summary: RedactionSummary): Redactor {
+    return new Redactor({
+      replacement: summary.replacement,
+      headers: summary.headers,
+      jsonPaths: summary.jsonPaths,
+      patterns: summary.patterns.map(({ name, source, flags, keys, inUrlPath }) => ({
+        name,
+        pattern: new RegExp(source, flags),
+        validate: DEFAULT_REDACTION_RULES.patterns.find(pattern => pattern.name === name)?.validate,
+        ...(keys ? { keys: new RegExp(keys) } : {}),
+        ...(inUrlPath === false ? { inUrlPath } : {}),
+      })),
+      // Summaries written before exemptions existed had none
+      exemptions: (summary.exemptions || []).map(({ url, jsonPaths }) => ({ url: new RegExp(url), jsonPaths })),
+    });
+  }
+
+  /**
+   * Describe the active rules so reviewers know what was masked
+   */
+  describe(): RedactionSummary {
+    return {
+      replacement: this.rules.replacement,
+      headers: [...this.rules.headers],
+      jsonPaths: [...this.rules.jsonPaths],
+      patterns: this.rules.patterns.map(({ name, pattern, keys, inUrlPath }) => ({
+        name,
+        source: pattern.source,
+        flags: pattern.flags,
+        ...(keys ? { keys: keys.source } : {}),
+        ...(inUrlPath === false ? { inUrlPath } : {}),
+      })),
+      exemptions: this.rules.exemptions.map(({ url, jsonPaths }) => ({ url: url.source, jsonPaths: [...jsonPaths] })),
+    };
+  }
+
+  /**
+   * Mask denylisted header values and patterns in the remaining ones
+   */
+  redactHeaders(headers: Record<string, string>): Record<string, string> {
+    return Object.fromEntries(
+      Object.entries(headers).map(([name, value]) => [
+        name,
+        this.headerSet.has(name.toLowerCase()) ? this.rules.replacement : this.redactString(String(value)),
+      ])
+    );
+  }
+
+  /**
+   * Mask patterns in a URL (query strings often carry emails and tokens)
+   */
+  redactUrl(url: string): string {
+    const queryIndex = url.indexOf('?');
+    if (queryIndex === -1) {
+      return this.redactString(url, { urlPath: true });
+    }
+
+    // Query values are matched decoded so encoded emails (%40) are caught too
+    const query = url.substring(queryIndex + 1);
+    const redactedQuery = this.redactFormBody(query);
+    const base = this.redactString(url.substring(0, queryIndex), { urlPath: true });
+    return redactedQuery === new URLSearchParams(query).toString()
+      ? `${base}?${query}`
+      : `${base}?${redactedQuery}`;
+  }
+
+  /**
+   * Mask a request or response body.
+   * JSON strings are parsed so path rules apply, then re-serialized.
+   * @param url - URL the body was exchanged with, so endpoint exemptions apply
+   */
+  redactBody<T>(body: T, url?: string): T {
+    const keptPaths = url !== undefined ? this.getKeptPaths(url) : [];
+
+    if (typeof body === 'string') {
+      try {
+        const parsed = JSON.parse(body);
+        if (parsed !== null && typeof parsed === 'object') {
+          return JSON.stringify(this.redactValue(parsed, [], keptPaths)) as unknown as T;
+        }
+      } catch {
+        // Not JSON, fall back to form or pattern matching
+      }
+      if (this.isFormEncoded(body)) {
+        return this.redactFormBody(body) as unknown as T;
+      }
+      return this.redactString(body) as unknown as T;
+    }
+
+    return this.redactValue(body, [], keptPaths) as T;
+  }
+
+  /**
+   * Redact every sensitive part of a captured API call
+   */
+  redactApiCall(call: ApiCall): ApiCall {
+    return {
+      ...call,
+      url: this.redactUrl(call.url),
+      headers: this.redactHeaders(call.headers || {}),
+      postData: call.postData !== undefined ? this.redactBody(call.postData, call.url) : undefined,
+      responseHeaders: call.responseHeaders ? this.redactHeaders(call.responseHeaders) : undefined,
+      responseBody: call.responseBody !== undefined ? this.redactBody(call.responseBody, call.url) : undefined,
+    };
+  }
+
+  /**
+   * JSON paths exempted for a URL, split into segments
+   */
+  private getKeptPaths(url: string): string[][] {
+    return this.rules.exemptions
+      .filter(exemption => exemption.url.test(url))
+      .flatMap(exemption => exemption.jsonPaths.map(jsonPath => jsonPath.split('.')));
+  }
+
+  /**
+   * Check whether a raw body looks like application/x-www-form-urlencoded
+   */
+  private isFormEncoded(body: string): boolean {
+    return /^[^\s=&]+=[^\s&]*(&[^\s=&]+=[^\s&]*)*$/.test(body);
+  }
+
+  /**
+   * Redact a form-urlencoded body. Bracketed keys such as `customer[email]`
+   * are matched as the JSON path `customer.email`.
+   */
+  private redactFormBody(body: string): string {
+    const params = new URLSearchParams(body);
+    const redacted = new URLSearchParams();
+
+    params.forEach((value, key) => {
+      const keyPath = key.replace(/\]/g, '').split('[').filter(Boolean);
+      redacted.append(key, this.matchesPath(keyPath)
+        ? this.rules.replacement
+        : this.redactString(value, { key: keyPath[keyPath.length - 1] }));
+    });
+
+    return redacted.toString();
+  }
+
+  /**
+   * Recursively redact a parsed value
+   */
+  private redactValue(value: any, currentPath: string[], keptPaths: string[][]): any {
+    if (currentPath.length > 0 && this.matchesPath(currentPath) && !this.matchesPath(currentPath, keptPaths)) {
+      return this.rules.replacement;
+    }
+
+    if (typeof value === 'string') {
+      return this.redactString(value, { key: currentPath[currentPath.length - 1] });
+    }
+
+    if (Array.isArray(value)) {
+      return value.map((item, index) => this.redactValue(item, [...currentPath, String(index)], keptPaths));
+    }
+
+    if (value !== null && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, this.redactValue(item, [...currentPath, key], keptPaths)])
+      );
+    }
+
+    return value;
+  }
+
+  /**
+   * Check whether a value path matches any of the given JSON path rules (default: the masked paths)
+   */
+  private matchesPath(currentPath: string[], rules: string[][] = this.compiledPaths): boolean {
+    return rules.some(rule => {
+      if (rule[0] === '**') {
+        const suffix = rule.slice(1);
+        return currentPath.length >= suffix.length &&
+          this.segmentsMatch(suffix, currentPath.slice(currentPath.length - suffix.length));
+      }
+      return rule.length === currentPath.length && this.segmentsMatch(rule, currentPath);
+    });
+  }
+
+  /**
+   * Compare rule segments with path segments (`*` matches anything)
+   */
+  private segmentsMatch(rule: string[], segments: string[]): boolean {
+    return rule.every((segment, index) => segment === '*' || segment === segments[index]);
+  }
+
+  /**
+   * Apply the regex patterns that fit where the string came from
+   * @param context - Key the value is stored under, or whether it is a URL path
+   */
+  private redactString(value: string, context: { key?: string; urlPath?: boolean } = {}): string {
+    return this.rules.patterns
+      .filter(({ keys, inUrlPath }) =>
+        (!keys || (context.key !== undefined && keys.test(context.key))) &&
+        !(context.urlPath && inUrlPath === false)
+      )
+      .reduce(
+        (result, { pattern, validate }) => result.replace(pattern, match =>
+          !validate || validate(match) ? this.rules.replacement : match
+        ),
+        value
+      );
+  }
+}
@@ -0,0 +1,229 @@
+import type { TestInfo } from '@playwright/test';
+import type { ApiCall } from './ApiCapture';
+import { Redactor } from './Redactor';
+
+/**
+ * Multipart file field, referenced by file name in the snippets
+ */
+export interface SnippetFile {
+  name: string;
+  mimeType: string;
+}
+
+/**
+ * Request to reproduce
+ */
+export interface SnippetRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  /** Parsed JSON, raw text, or a Buffer (written to a placeholder file) */
+  body?: string | object;
+  /** Multipart fields; when set, body is ignored */
+  multipart?: Record<string, string | SnippetFile>;
+}
+
+/**
+ * Redacted reproduction of one call
+ */
+export interface ApiReproduction {
+  method: string;
+  url: string;
+  status?: number;
+  failure?: string;
+  timestamp: string;
+  curl: string;
+  fetch: string;
+}
+
+/**
+ * Headers curl and fetch set themselves
+ */
+const SKIPPED_HEADERS = ['content-length', 'host', 'connection', 'accept-encoding'];
+
+/**
+ * Request Snippet
+ * Turns a request into equivalent curl and fetch (TypeScript) snippets,
+ * so a failed call can be reproduced without running Playwright
+ */
+export class RequestSnippet {
+  /**
+   * Snippet request for a captured browser call
+   */
+  static fromApiCall(call: ApiCall): SnippetRequest {
+    return { method: call.method, url: call.url, headers: call.headers || {}, body: call.postData };
+  }
+
+  /**
+   * Check whether a captured call failed (network error or HTTP status >= 400)
+   */
+  static isFailure(call: ApiCall): boolean {
+    return Boolean(call.failure) || (call.status ?? 0) >= 400;
+  }
+
+  /**
+   * Build redacted curl and fetch snippets for a call
+   * @param request - Request as sent
+   * @param outcome - Response status or failure message, and when the call was made (default: now)
+   * @param redactor - Redactor applied first; null disables redaction (default: Redactor.fromEnv())
+   */
+  static reproduce(
+    request: SnippetRequest,
+    outcome: { status?: number; failure?: string; timestamp?: number },
+    redactor: Redactor | null = Redactor.fromEnv()
+  ): ApiReproduction {
+    const redacted = redactor ? this.redact(request, redactor) : request;
+
+    return {
+      method: redacted.method,
+      url: redacted.url,
+      status: outcome.status,
+      failure: outcome.failure,
+      timestamp: new Date(outcome.timestamp ?? Date.now()).toISOString(),
+      curl: this.toCurl(redacted),
+      fetch: this.toFetch(redacted),
+    };
+  }
+
+  /**
+   * Equivalent curl command
+   */
+  static toCurl(request: SnippetRequest): string {
+    const method = request.method.toUpperCase();
+    const lines = [`curl -X ${method} ${this.shellQuote(request.url)}`];
+
+    Object.entries(this.getHeaders(request)).forEach(([name, value]) => {
+      lines.push(`-H ${this.shellQuote(`${name}: ${value}`)}`);
+    });
+
+    if (request.multipart) {
+      Object.entries(request.multipart).forEach(([field, value]) => {
+        lines.push(typeof value === 'object'
+          ? `-F ${this.shellQuote(`${field}=@${value.name};type=${value.mimeType}`)}`
+          : `-F ${this.shellQuote(`${field}=${value}`)}`);
+      });
+    } else if (Buffer.isBuffer(request.body)) {
+      lines.push(`--data-binary @request-body.bin  # ${request.body.length} bytes`);
+    } else if (request.body !== undefined) {
+      lines.push(`--data-raw ${this.shellQuote(this.stringifyBody(request.body))}`);
+    }
+
+    return lines.join(' \\\n  ');
+  }
+
+  /**
+   * Equivalent fetch call (runs with Node 18+ or tsx/ts-node)
+   */
+  static toFetch(request: SnippetRequest): string {
+    const method = request.method.toUpperCase();
+    const headers = this.getHeaders(request);
+    const lines: string[] = [];
+    let body: string | undefined;
+
+    if (request.multipart) {
+      const files = Object.values(request.multipart).some(value => typeof value === 'object');
+      if (files) lines.push(`import { readFileSync } from 'fs';`, '');
+      lines.push('const body = new FormData();');
+      Object.entries(request.multipart).forEach(([field, value]) => {
+        lines.push(typeof value === 'object'
+          ? `body.append(${JSON.stringify(field)}, new Blob([readFileSync(${JSON.stringify(value.name)})], { type: ${JSON.stringify(value.mimeType)} }), ${JSON.stringify(value.name)});`
+          : `body.append(${JSON.stringify(field)}, ${JSON.stringify(value)});`);
+      });
+      lines.push('');
+      body = 'body';
+    } else if (Buffer.isBuffer(request.body)) {
+      lines.push(`import { readFileSync } from 'fs';`, '');
+      body = `readFileSync('request-body.bin') // ${request.body.length} bytes`;
+    } else if (request.body !== undefined) {
+      const parsed = typeof request.body === 'string' ? this.tryParseJson(request.body) : request.body;
+      body = parsed !== undefined && typeof parsed === 'object'
+        ? `JSON.stringify(${JSON.stringify(parsed, null, 2).replace(/\n/g, '\n  ')})`
+        : JSON.stringify(this.stringifyBody(request.body));
+    }
+
+    lines.push(`const response = await fetch(${JSON.stringify(request.url)}, {`);
+    lines.push(`  method: ${JSON.stringify(method)},`);
+    if (Object.keys(headers).length > 0) {
+      lines.push('  headers: {');
+      Object.entries(headers).forEach(([name, value]) => {
+        lines.push(`    ${JSON.stringify(name)}: ${JSON.stringify(value)},`);
+      });
+      lines.push('  },');
+    }
+    if (body !== undefined) {
+      lines.push(`  body: ${body},`);
+    }
+    lines.push('});');
+    lines.push('console.log(response.status, await response.text());');
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Render reproductions as a plain-text document
+   */
+  static format(reproductions: ApiReproduction[]): string {
+    return reproductions.map((reproduction, index) => [
+      `### ${index + 1}. ${reproduction.method} ${reproduction.url} -> ${reproduction.failure || reproduction.status || 'no response'}`,
+      '',
+      '# curl',
+      reproduction.curl,
+      '',
+      '// fetch (TypeScript)',
+      reproduction.fetch,
+    ].join('\n')).join('\n\n');
+  }
+
+  /**
+   * Attach reproductions to the test report (no-op when empty)
+   * @param testInfo - Running test
+   * @param reproductions - Reproductions to attach
+   * @param name - Attachment name
+   */
+  static async attach(testInfo: TestInfo, reproductions: ApiReproduction[], name: string = 'api-reproduction'): Promise<void> {
+    if (reproductions.length === 0) return;
+    await testInfo.attach(`${name}.txt`, { body: this.format(reproductions), contentType: 'text/plain' });
+  }
+
+  private static redact(request: SnippetRequest, redactor: Redactor): SnippetRequest {
+    return {
+      ...request,
+      url: redactor.redactUrl(request.url),
+      headers: redactor.redactHeaders(request.headers),
+      body: request.body !== undefined && !Buffer.isBuffer(request.body) ? redactor.redactBody(request.body, request.url) : request.body,
+      multipart: request.multipart && Object.fromEntries(Object.entries(request.multipart).map(([field, value]) => [
+        field,
+        typeof value === 'object' ? value : redactor.redactBody(value),
+      ])),
+    };
+  }
+
+  /**
+   * Headers worth replaying; the multipart boundary is left to curl/fetch
+   */
+  private static getHeaders(request: SnippetRequest): Record<string, string> {
+    return Object.fromEntries(Object.entries(request.headers).filter(([name]) => {
+      const lower = name.toLowerCase();
+      return !SKIPPED_HEADERS.includes(lower) && !lower.startsWith(':') && !(request.multipart && lower === 'content-type');
+    }));
+  }
+
+  private static stringifyBody(body: string | object): string {
+    return typeof body === 'string' ? body : JSON.stringify(body);
+  }
+
+  private static tryParseJson(text: string): any {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Single-quote a value for POSIX shells
+   */
+  private static shellQuote(value: string): string {
+    return `'${value.replace(/'/g, `'\\''`)}'`;
+  }
+}
@@ -0,0 +1,182 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ApiCall, ApiCaptureFile } from './ApiCapture';
+import { EndpointPath } from './EndpointPath';
+import type { JsonSchema, JsonSchemaType } from '../api/helpers/JsonSchemaValidator';
+
+/**
+ * Schema inference options
+ */
+export interface SchemaInferenceOptions {
+  /** Only include endpoints on these hosts (suffix match) */
+  hosts?: string[];
+  /** Include non-2xx responses (default: false) */
+  includeErrors?: boolean;
+}
+
+/**
+ * Inferred schema for one endpoint
+ */
+export interface InferredSchema {
+  endpoint: string;
+  samples: number;
+  schema: JsonSchema;
+}
+
+const SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+
+/**
+ * Schema Inference
+ * Builds JSON Schemas for endpoints from the response bodies seen in ApiCapture files
+ */
+export class SchemaInference {
+  static readonly SCHEMA_FOLDER = path.resolve(process.cwd(), 'api', 'schemas');
+
+  /**
+   * Infer a schema for a single JSON value
+   */
+  static inferValue(value: any): JsonSchema {
+    if (value === null) return { type: 'null' };
+    if (Array.isArray(value)) {
+      const items = value.map(item => this.inferValue(item));
+      return items.length > 0
+        ? { type: 'array', items: items.reduce((merged, item) => this.merge(merged, item)) }
+        : { type: 'array' };
+    }
+    if (typeof value === 'object') {
+      const properties: Record<string, JsonSchema> = {};
+      Object.entries(value).forEach(([key, item]) => {
+        properties[key] = this.inferValue(item);
+      });
+      return { type: 'object', properties, required: Object.keys(value).sort() };
+    }
+    if (typeof value === 'number') {
+      return { type: Number.isInteger(value) ? 'integer' : 'number' };
+    }
+    return { type: typeof value as JsonSchemaType };
+  }
+
+  /**
+   * Merge two schemas into one that accepts values of both.
+   * Objects merge properties (required = present in both), arrays merge item types,
+   * integer widens to number and different types become an anyOf union.
+   */
+  static merge(a: JsonSchema, b: JsonSchema): JsonSchema {
+    const variants = new Map<string, JsonSchema>();
+
+    [...this.variantsOf(a), ...this.variantsOf(b)].forEach(variant => {
+      const type = variant.type as JsonSchemaType;
+      const key = type === 'integer' ? 'number' : type;
+      const existing = variants.get(key);
+      variants.set(key, existing ? this.mergeSameType(existing, variant) : variant);
+    });
+
+    const merged = [...variants.values()];
+    return merged.length === 1 ? merged[0] : { anyOf: merged };
+  }
+
+  /**
+   * Infer one schema per endpoint across capture files
+   * @param captures - Parsed capture files
+   * @param options - Host and status filters
+   * @returns Inferred schemas sorted by endpoint
+   */
+  static inferFromCaptures(captures: ApiCaptureFile[], options: SchemaInferenceOptions = {}): InferredSchema[] {
+    const schemas = new Map<string, InferredSchema>();
+
+    captures.forEach(capture => capture.apiCalls.forEach(call => {
+      if (!this.isSchemaSample(call, options)) return;
+
+      const endpoint = EndpointPath.getEndpointKey(call.method, call.url);
+      const sample = this.inferValue(call.responseBody);
+      const existing = schemas.get(endpoint);
+
+      if (existing) {
+        existing.schema = this.merge(existing.schema, sample);
+        existing.samples++;
+      } else {
+        schemas.set(endpoint, { endpoint, samples: 1, schema: sample });
+      }
+    }));
+
+    return [...schemas.values()].sort((a, b) => a.endpoint.localeCompare(b.endpoint));
+  }
+
+  /**
+   * Write inferred schemas as standalone JSON Schema files
+   * @param inferred - Inferred schemas
+   * @param outputDir - Output directory (default: api/schemas)
+   * @returns Written file paths
+   */
+  static save(inferred: InferredSchema[], outputDir: string = this.SCHEMA_FOLDER): string[] {
+    if (!fs.existsSync(outputDir)) {
+      fs.mkdirSync(outputDir, { recursive: true });
+    }
+
+    return inferred.map(({ endpoint, samples, schema }) => {
+      const filePath = path.join(outputDir, `${this.getSchemaFileName(endpoint)}.schema.json`);
+      const document: JsonSchema = {
+        $schema: SCHEMA_DIALECT,
+        title: endpoint,
+        description: `Inferred from ${samples} captured response(s)`,
+        ...schema,
+      };
+      fs.writeFileSync(filePath, JSON.stringify(document, null, 2), 'utf-8');
+      return filePath;
+    });
+  }
+
+  /**
+   * File name for an endpoint schema (GET myformulai.com/cart.js -> get-myformulai-com-cart-js)
+   */
+  static getSchemaFileName(endpoint: string): string {
+    return endpoint
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-|-$/g, '')
+      .substring(0, 150);
+  }
+
+  private static isSchemaSample(call: ApiCall, options: SchemaInferenceOptions): boolean {
+    if (call.responseBody === null || typeof call.responseBody !== 'object') return false;
+    if (!options.includeErrors && (call.status === undefined || call.status < 200 || call.status >= 300)) return false;
+
+    if (options.hosts && options.hosts.length > 0) {
+      try {
+        const host = new URL(call.url).host;
+        return options.hosts.some(allowed => host === allowed || host.endsWith(`.${allowed}`));
+      } catch {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  private static variantsOf(schema: JsonSchema): JsonSchema[] {
+    return schema.anyOf ? schema.anyOf : [schema];
+  }
+
+  private static mergeSameType(a: JsonSchema, b: JsonSchema): JsonSchema {
+    if (a.type === 'object') {
+      const properties: Record<string, JsonSchema> = { ...a.properties };
+      Object.entries(b.properties || {}).forEach(([key, schema]) => {
+        properties[key] = properties[key] ? this.merge(properties[key], schema) : schema;
+      });
+      const required = (a.required || []).filter(key => (b.required || []).includes(key));
+      return { type: 'object', properties, required };
+    }
+
+    if (a.type === 'array') {
+      if (a.items && b.items) return { type: 'array', items: this.merge(a.items, b.items) };
+      return { type: 'array', ...(a.items || b.items ? { items: a.items || b.items } : {}) };
+    }
+
+    if (a.type !== b.type) {
+      // integer + number
+      return { type: 'number' };
+    }
+
+    return a;
+  }
+}